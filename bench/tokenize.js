@@ -0,0 +1,48 @@
+// Tokenizer throughput for a large document and for tiny chunk sizes.
+// Run `npm run build` first, then `npm run bench`.
+const { MarkupTokenizer } = require("../dist/cjs/index.js");
+
+const SAMPLE = `<div class="item" data-id="42">
+  <h2><a href="/items/42?ref=list&amp;page=2">Item title</a></h2>
+  <!-- rendered by the list template -->
+  <p>Some <b>bold</b> and <i>italic</i> text, with an entity &copy; and a < sign.</p>
+  <img src="/img/42.png" alt="" width="120" height="80">
+  <script>if (a < b && c > d) { render("<p>") }</script>
+</div>
+`;
+
+const document = (size) =>
+  Buffer.from(SAMPLE.repeat(Math.ceil(size / SAMPLE.length)));
+
+function run(input, chunkSize) {
+  const chunks = [];
+  for (let i = 0; i < input.length; i += chunkSize) {
+    chunks.push(input.subarray(i, i + chunkSize));
+  }
+  let count = 0;
+  const tokenizer = new MarkupTokenizer({ encoding: "utf-8" });
+  tokenizer.on("data", () => count++);
+  const start = process.hrtime.bigint();
+  for (const chunk of chunks) tokenizer.write(chunk);
+  tokenizer.end();
+  const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+  return { count, seconds };
+}
+
+const cases = [
+  ["10 MB, 64 KB chunks", 10e6, 65536],
+  ["10 MB, 1 KB chunks", 10e6, 1024],
+  ["1 MB, 16 B chunks", 1e6, 16],
+  ["100 KB, 1 B chunks", 1e5, 1],
+];
+
+for (const [name, size, chunkSize] of cases) {
+  const input = document(size);
+  // Warm up
+  run(input.subarray(0, 65536), chunkSize);
+  const { count, seconds } = run(input, chunkSize);
+  const throughput = (input.length / 1e6 / seconds).toFixed(1);
+  console.log(
+    `${name.padEnd(22)} ${throughput.padStart(7)} MB/s ${String(count).padStart(9)} tokens`
+  );
+}
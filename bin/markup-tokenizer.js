@@ -0,0 +1,13 @@
+#!/usr/bin/env node
+// Command-line entry point, see `markup-tokenizer --help`
+const { main } = require("../dist/cjs/cli.js");
+
+// Output piped to a command that exits early, like `head`
+process.stdout.on("error", (error) => {
+  if (error.code !== "EPIPE") throw error;
+  process.exit(0);
+});
+
+main(process.argv.slice(2), process).then((code) => {
+  process.exitCode = code;
+});
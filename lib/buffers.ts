@@ -0,0 +1,15 @@
+// Buffer helpers for the Node entry points
+import type { Bytes } from "./bytes.js";
+
+// Tokens are slices of the input chunks or of these Buffers
+export const nodeBytes: Bytes = {
+  concat: (list) => Buffer.concat(list),
+  encode: (text) => Buffer.from(text, "utf8"),
+};
+
+export const toBuffer = (chunk: string | Uint8Array): Buffer =>
+  typeof chunk === "string"
+    ? Buffer.from(chunk, "utf8")
+    : Buffer.isBuffer(chunk)
+    ? chunk
+    : Buffer.from(chunk.buffer, chunk.byteOffset, chunk.byteLength);
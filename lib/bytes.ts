@@ -0,0 +1,48 @@
+// Byte helpers that do not depend on Node's Buffer
+
+export interface Bytes {
+  concat(list: Uint8Array[]): Uint8Array;
+  encode(text: string): Uint8Array;
+}
+
+const encoder = new TextEncoder();
+// Keep byte order marks, like Buffer#toString
+const decoder = new TextDecoder("utf-8", { ignoreBOM: true });
+
+export const encode = (text: string): Uint8Array => encoder.encode(text);
+
+export const decode = (
+  buf: Uint8Array,
+  start: number = 0,
+  end: number = buf.length
+): string => decoder.decode(buf.subarray(start, end));
+
+export function concat(list: Uint8Array[]): Uint8Array {
+  let length = 0;
+  for (let i = 0; i < list.length; i++) length += list[i].length;
+  const result = new Uint8Array(length);
+  let offset = 0;
+  for (let i = 0; i < list.length; i++) {
+    result.set(list[i], offset);
+    offset += list[i].length;
+  }
+  return result;
+}
+
+export const webBytes: Bytes = { concat, encode };
+
+// Base64 text of bytes, for JSON snapshots
+export function toBase64(buf: Uint8Array): string {
+  let text = "";
+  for (let i = 0; i < buf.length; i += 0x8000) {
+    text += String.fromCharCode(...buf.subarray(i, i + 0x8000));
+  }
+  return btoa(text);
+}
+
+export function fromBase64(text: string): Uint8Array {
+  const binary = atob(text);
+  const buf = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) buf[i] = binary.charCodeAt(i);
+  return buf;
+}
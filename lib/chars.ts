@@ -0,0 +1,38 @@
+// Character codes for V8 optimization (cached constants)
+export const LT = 60; // '<'
+export const GT = 62; // '>'
+export const SLASH = 47; // '/'
+export const QUESTION = 63; // '?'
+export const BANG = 33; // '!'
+export const DQUOTE = 34; // '"'
+export const SQUOTE = 39; // "'"
+export const EQUAL = 61; // '='
+export const AMP = 38; // '&'
+export const DASH = 45; // '-'
+export const LBRACKET = 91; // '['
+export const RBRACKET = 93; // ']'
+export const SPACE = 0x20;
+export const TAB = 0x09;
+export const LF = 0x0a;
+export const FF = 0x0c;
+export const CR = 0x0d;
+
+export const isWhitespace = (c: number): boolean =>
+  c === SPACE || c === TAB || c === LF || c === FF || c === CR;
+
+export const isAsciiAlpha = (c: number): boolean =>
+  (c >= 65 && c <= 90) || (c >= 97 && c <= 122);
+
+// Characters accepted in an XML name (prefixed names like `soap:Envelope` included)
+export const isXmlNameChar = (c: number): boolean =>
+  !isWhitespace(c) && c !== SLASH && c !== GT;
+
+// Characters accepted in an HTML tag name (letters, digits, '-', '!', '[' and ']')
+export const isTagNameChar = (c: number): boolean =>
+  (c >= 65 && c <= 90) ||
+  (c >= 97 && c <= 122) ||
+  (c >= 48 && c <= 57) ||
+  c === 45 ||
+  c === 33 ||
+  c === 91 ||
+  c === 93;
@@ -0,0 +1,106 @@
+import { test, describe } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { Readable, PassThrough } from 'stream';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { main, parseArguments } from './cli.js';
+
+const collect = (stream: PassThrough): Promise<string> => new Promise(resolve => {
+  let text = '';
+  stream.on('data', (chunk: Buffer) => text += chunk.toString());
+  stream.on('end', () => resolve(text));
+});
+
+const run = async (argv: string[], input = ''): Promise<{ code: number, stdout: string, stderr: string }> => {
+  const stdout = new PassThrough();
+  const stderr = new PassThrough();
+  const output = Promise.all([collect(stdout), collect(stderr)]);
+  const code = await main(argv, { stdin: Readable.from([Buffer.from(input)]), stdout, stderr });
+  stdout.end();
+  stderr.end();
+  const [out, err] = await output;
+  return { code, stdout: out, stderr: err };
+};
+
+const lines = (text: string) => text.trim().split('\n').map(line => JSON.parse(line));
+
+describe('command-line interface', () => {
+
+  test('tokens as NDJSON', async () => {
+    const { code, stdout, stderr } = await run([], '<p class="a">Hi</p>');
+    assert.equal(code, 0);
+    assert.equal(stderr, '');
+    assert.deepEqual(lines(stdout), [
+      { type: 'open', text: '<p class="a">' },
+      { type: 'text', text: 'Hi' },
+      { type: 'close', text: '</p>' }
+    ]);
+  });
+
+  test('options as flags', async () => {
+    const { stdout } = await run(['--positions', '--ignore-text', '--mode', 'xml'], '<a>x</a>');
+    assert.deepEqual(lines(stdout), [
+      { type: 'open', text: '<a>', start: 0, end: 3, line: 1, column: 1 },
+      { type: 'close', text: '</a>', start: 4, end: 8, line: 1, column: 5 }
+    ]);
+    const { options } = parseArguments([
+      '--decode-entities', '--raw-text-elements', 'script,style', '--max-text-length', '100:split',
+      '--max-attributes', '5', '--template', '{{ }}', '--template', '<% %>', '--whitespace', 'collapse'
+    ]);
+    assert.equal(options.decodeEntities, true);
+    assert.deepEqual(options.rawTextElements, ['script', 'style']);
+    assert.deepEqual(options.maxTextLength, { max: 100, action: 'split' });
+    assert.deepEqual(options.maxAttributes, { max: 5, action: undefined });
+    assert.deepEqual(options.templateDelimiters, [['{{', '}}'], ['<%', '%>']]);
+    assert.equal(options.whitespace, 'collapse');
+  });
+
+  test('reads a file', async () => {
+    const file = join(mkdtempSync(join(tmpdir(), 'markup-tokenizer-')), 'page.html');
+    writeFileSync(file, '<br>');
+    const { stdout } = await run([file]);
+    assert.deepEqual(lines(stdout), [{ type: 'open', text: '<br>' }]);
+    assert.equal(parseArguments(['-']).file, null);
+  });
+
+  test('stats', async () => {
+    const { code, stdout } = await run(['--stats'], '<ul><li>a<li><b>b</b></ul><br><!-- c -->');
+    assert.equal(code, 0);
+    const stats = JSON.parse(stdout);
+    assert.equal(stats.bytes, 40);
+    assert.equal(stats.tokens, 10);
+    assert.deepEqual(stats.types, { open: 5, text: 2, close: 2, comment: 1 });
+    assert.deepEqual(stats.tags, { ul: 1, li: 2, b: 1, br: 1 });
+    // The second li closes the first one
+    assert.equal(stats.maxDepth, 3);
+    assert.equal(stats.warnings, 0);
+    assert.equal(typeof stats.throughput, 'number');
+  });
+
+  test('warnings and errors', async () => {
+    const lenient = await run([], '<a <b>');
+    assert.equal(lenient.code, 0);
+    assert.match(lenient.stderr, /^warning: .*less-than-in-tag at byte 3/);
+    const strict = await run(['--strict'], '<a <b>');
+    assert.equal(strict.code, 1);
+    assert.match(strict.stderr, /^markup-tokenizer: /);
+    const missing = await run(['/does/not/exist.html']);
+    assert.equal(missing.code, 1);
+  });
+
+  test('invalid arguments', async () => {
+    for (const argv of [['--bogus'], ['--mode', 'sgml'], ['--max-tag-length', '0'], ['--max-tag-length', '9:drop'], ['--template', '{{'], ['a', 'b']]) {
+      const { code, stderr } = await run(argv);
+      assert.equal(code, 2, argv.join(' '));
+      assert.match(stderr, /Usage: markup-tokenizer/);
+    }
+  });
+
+  test('help', async () => {
+    const { code, stdout } = await run(['-h']);
+    assert.equal(code, 0);
+    assert.match(stdout, /^Usage: markup-tokenizer/);
+  });
+
+});
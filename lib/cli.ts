@@ -0,0 +1,264 @@
+import { createReadStream } from "node:fs";
+import { once } from "node:events";
+import { parseArgs } from "node:util";
+import type { Readable, Writable } from "node:stream";
+import { MarkupTokenizer } from "./index.js";
+import { getTagName } from "./tag.js";
+import { ElementStack } from "./tree.js";
+import type { MarkupTokenizerOptions, WhitespaceMode } from "./tokenizer.js";
+import type { Limit, LimitAction } from "./limits.js";
+import type { Diagnostic } from "./diagnostics.js";
+import type { Token } from "./types.js";
+
+export const USAGE = `Usage: markup-tokenizer [options] [file]
+
+Print the tokens of a file, or of stdin, as NDJSON.
+
+Options:
+  --stats                     Print token and tag counts, nesting depth and throughput
+  --ignore-text               Skip text tokens
+  --positions                 Add start, end, line and column to each token
+  --split-comments            Emit comments as open, text and close tokens
+  --mode <html|xml>           Markup language (default: html)
+  --raw-text-elements <list>  Comma-separated elements whose content is raw text
+  --rcdata-elements <list>    Comma-separated elements whose content is RCDATA
+  --decode-entities           Decode character references in text
+  --encoding <label>          Input encoding (default: auto)
+  --strict                    Exit on the first parse error
+  --spec                      Follow the HTML Standard for '<', end tags and declarations
+  --max-tag-length <n[:action]>
+  --max-text-length <n[:action]>
+  --max-attributes <n[:action]>
+                              Limits, the action being error, truncate or split
+  --whitespace <mode>         preserve, dropInsignificant or collapse
+  --template <"open close">   Template delimiters, e.g. "{{ }}" (repeatable)
+  -h, --help                  Show this help
+`;
+
+export interface CliArguments {
+  // null for stdin
+  file: string | null;
+  stats: boolean;
+  help: boolean;
+  options: MarkupTokenizerOptions;
+}
+
+export interface CliStreams {
+  stdin: Readable;
+  stdout: Writable;
+  stderr: Writable;
+}
+
+export interface TokenStats {
+  bytes: number;
+  tokens: number;
+  // Tokens by type
+  types: Record<string, number>;
+  // Open and selfclose tags by name
+  tags: Record<string, number>;
+  // Largest number of open elements, end tags implied like the tree builder
+  maxDepth: number;
+  warnings: number;
+  seconds: number;
+  // Input megabytes (10^6 bytes) per second
+  throughput: number;
+}
+
+const LIMIT_ACTIONS: LimitAction[] = ["error", "truncate", "split"];
+const WHITESPACE_MODES: WhitespaceMode[] = [
+  "preserve",
+  "dropInsignificant",
+  "collapse",
+];
+
+// Lines are written in batches of this many characters
+const BATCH = 65536;
+
+function limit(value: string | undefined, flag: string): Limit | undefined {
+  if (value === undefined) return undefined;
+  const [max, action] = value.split(":");
+  if (action !== undefined && !LIMIT_ACTIONS.includes(action as LimitAction)) {
+    throw new TypeError(`${flag} action must be one of ${LIMIT_ACTIONS.join(", ")}`);
+  }
+  return { max: Number(max), action: action as LimitAction | undefined };
+}
+
+function list(value: string | undefined): string[] | undefined {
+  return value === undefined ? undefined : value.split(",").filter(Boolean);
+}
+
+/**
+ * Read the command-line flags, throwing a TypeError for invalid ones.
+ */
+export function parseArguments(argv: string[]): CliArguments {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      stats: { type: "boolean" },
+      "ignore-text": { type: "boolean" },
+      positions: { type: "boolean" },
+      "split-comments": { type: "boolean" },
+      mode: { type: "string" },
+      "raw-text-elements": { type: "string" },
+      "rcdata-elements": { type: "string" },
+      "decode-entities": { type: "boolean" },
+      encoding: { type: "string" },
+      strict: { type: "boolean" },
+      spec: { type: "boolean" },
+      "max-tag-length": { type: "string" },
+      "max-text-length": { type: "string" },
+      "max-attributes": { type: "string" },
+      whitespace: { type: "string" },
+      template: { type: "string", multiple: true },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+  if (positionals.length > 1) throw new TypeError("Only one file can be read");
+  const { mode, whitespace } = values;
+  if (mode !== undefined && mode !== "html" && mode !== "xml") {
+    throw new TypeError("--mode must be html or xml");
+  }
+  if (
+    whitespace !== undefined &&
+    !WHITESPACE_MODES.includes(whitespace as WhitespaceMode)
+  ) {
+    throw new TypeError(`--whitespace must be one of ${WHITESPACE_MODES.join(", ")}`);
+  }
+  const templates = (values.template ?? []).map((pair) => {
+    const delimiters = pair.trim().split(/\s+/);
+    if (delimiters.length !== 2) {
+      throw new TypeError(`--template takes "open close" delimiters, got "${pair}"`);
+    }
+    return delimiters as [string, string];
+  });
+
+  const file = positionals[0] ?? null;
+  return {
+    file: file === "-" ? null : file,
+    stats: values.stats ?? false,
+    help: values.help ?? false,
+    options: {
+      ignoreText: values["ignore-text"],
+      positions: values.positions,
+      splitComments: values["split-comments"],
+      mode,
+      rawTextElements: list(values["raw-text-elements"]),
+      rcdataElements: list(values["rcdata-elements"]),
+      decodeEntities: values["decode-entities"],
+      encoding: values.encoding,
+      strict: values.strict,
+      spec: values.spec,
+      maxTagLength: limit(values["max-tag-length"], "--max-tag-length"),
+      maxTextLength: limit(values["max-text-length"], "--max-text-length"),
+      maxAttributes: limit(values["max-attributes"], "--max-attributes"),
+      whitespace: whitespace as WhitespaceMode | undefined,
+      templateDelimiters: templates.length > 0 ? templates : undefined,
+    },
+  };
+}
+
+// One NDJSON line per token
+function line([type, buf, position]: Token): string {
+  const text = buf.toString();
+  if (!position) return JSON.stringify({ type, text }) + "\n";
+  const { start, end, line, column } = position;
+  return JSON.stringify({ type, text, start, end, line, column }) + "\n";
+}
+
+const warning = (diagnostic: Diagnostic): string =>
+  `warning: ${diagnostic.message} (${diagnostic.code} at byte ${diagnostic.offset})\n`;
+
+async function write(stream: Writable, text: string): Promise<void> {
+  if (!stream.write(text)) await once(stream, "drain");
+}
+
+/**
+ * Run the command with `argv` (without the node and script paths) and
+ * return its exit code: 1 when tokenizing fails, 2 for invalid arguments.
+ */
+export async function main(argv: string[], streams: CliStreams): Promise<number> {
+  const { stdin, stdout, stderr } = streams;
+  let args: CliArguments;
+  let tokenizer: MarkupTokenizer;
+  try {
+    args = parseArguments(argv);
+    tokenizer = new MarkupTokenizer(args.options);
+  } catch (error) {
+    stderr.write(`markup-tokenizer: ${(error as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+  if (args.help) {
+    stdout.write(USAGE);
+    return 0;
+  }
+
+  const input = args.file === null ? stdin : createReadStream(args.file);
+  const mode = args.options.mode ?? "html";
+  let bytes = 0;
+  let warnings = 0;
+  let depth = 0;
+  const types: Record<string, number> = {};
+  const tags: Record<string, number> = {};
+  const stack = new ElementStack(
+    { mode },
+    () => {
+      depth = Math.max(depth, stack.names.length);
+    },
+    () => {}
+  );
+
+  input.on("data", (chunk: Buffer) => {
+    bytes += chunk.length;
+  });
+  input.on("error", (error: Error) => tokenizer.destroy(error));
+  tokenizer.on("warning", (diagnostic: Diagnostic) => {
+    warnings++;
+    if (!args.stats) stderr.write(warning(diagnostic));
+  });
+
+  const start = process.hrtime.bigint();
+  let batch = "";
+  let count = 0;
+  try {
+    for await (const token of input.pipe(tokenizer) as AsyncIterable<Token>) {
+      count++;
+      if (!args.stats) {
+        batch += line(token);
+        if (batch.length >= BATCH) {
+          await write(stdout, batch);
+          batch = "";
+        }
+        continue;
+      }
+      const type = token[0];
+      types[type] = (types[type] ?? 0) + 1;
+      if (type === "open" || type === "selfclose") {
+        const name = getTagName(token[1], { mode });
+        tags[name] = (tags[name] ?? 0) + 1;
+      }
+      stack.write(token);
+    }
+  } catch (error) {
+    if (batch) await write(stdout, batch);
+    stderr.write(`markup-tokenizer: ${(error as Error).message}\n`);
+    return 1;
+  }
+  if (batch) await write(stdout, batch);
+  if (!args.stats) return 0;
+
+  stack.end();
+  const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+  const stats: TokenStats = {
+    bytes,
+    tokens: count,
+    types,
+    tags,
+    maxDepth: depth,
+    warnings,
+    seconds,
+    throughput: seconds > 0 ? bytes / 1e6 / seconds : 0,
+  };
+  await write(stdout, JSON.stringify(stats, null, 2) + "\n");
+  return 0;
+}
@@ -0,0 +1,108 @@
+import { test, describe } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { Readable } from 'stream';
+import { MarkupTokenizer, MarkupTokenizerError, tokenize } from './index.js';
+import type { Diagnostic, MarkupTokenizerOptions, Token } from './index.js';
+
+const run = (chunks: string[], options?: MarkupTokenizerOptions): Promise<{ tokens: string[], warnings: Diagnostic[] }> =>
+  new Promise((resolve, reject) => {
+    const tokens: string[] = [];
+    const warnings: Diagnostic[] = [];
+    const tokenizer = new MarkupTokenizer(options);
+    tokenizer.on('warning', (diagnostic) => warnings.push(diagnostic));
+    tokenizer.on('data', (token: Token) => tokens.push(token[1].toString()));
+    tokenizer.on('end', () => resolve({ tokens, warnings }));
+    tokenizer.on('error', reject);
+    Readable.from(chunks.map(chunk => Buffer.from(chunk, 'utf8'))).pipe(tokenizer);
+  });
+
+const codes = async (input: string, options?: MarkupTokenizerOptions): Promise<[string, number][]> => {
+  const { warnings } = await run([input], options);
+  return warnings.map(({ code, offset }) => [code, offset]);
+};
+
+describe('Diagnostics', () => {
+
+  test('well-formed input has no warnings', async () => {
+    assert.deepEqual(await codes('<!DOCTYPE html><p class="a">a < b</p><!-- c --><script>x</script>'), []);
+  });
+
+  test('end of input in a comment', async () => {
+    assert.deepEqual(await codes('<p>a</p><!-- never'), [['eof-in-comment', 8]]);
+  });
+
+  test('end of input in cdata and processing instructions', async () => {
+    assert.deepEqual(await codes('<a><![CDATA[x', { mode: 'xml' }), [['eof-in-cdata', 3]]);
+    assert.deepEqual(await codes('<?xml version="1.0"', { mode: 'xml' }), [['eof-in-processing-instruction', 0]]);
+  });
+
+  test('unterminated sections keep their token type', () => {
+    const types = (input: string, options?: MarkupTokenizerOptions) =>
+      tokenize(input, options).map(([type, buf]) => [type, buf.toString()]);
+    assert.deepEqual(types('a<!-- never'), [['text', 'a'], ['comment', '<!-- never']]);
+    assert.deepEqual(types('a<![CDATA[x'), [['text', 'a'], ['cdata', '<![CDATA[x']]);
+    assert.deepEqual(types('a<![CDATA[x', { mode: 'xml' }), [['text', 'a'], ['cdata', '<![CDATA[x']]);
+    assert.deepEqual(types('a<?pi x', { mode: 'xml' }), [['text', 'a'], ['pi', '<?pi x']]);
+    assert.deepEqual(types('a<!-- never', { splitComments: true }), [['text', 'a'], ['open', '<!--'], ['text', ' never']]);
+  });
+
+  test('end of input in raw text', async () => {
+    const { warnings } = await run(['<p>a</p><script>var a = 1;']);
+    assert.equal(warnings.length, 1);
+    assert.equal(warnings[0].code, 'eof-in-raw-text');
+    assert.equal(warnings[0].offset, 8);
+    assert.match(warnings[0].message, /<script>/);
+  });
+
+  test('plaintext ends with the input', async () => {
+    assert.deepEqual(await codes('<plaintext>a'), []);
+  });
+
+  test('end of input in a tag', async () => {
+    assert.deepEqual(await codes('<p>a</p><div class=a'), [['eof-in-tag', 8]]);
+    assert.deepEqual(await codes('<p>a</p><script>a</script'), [['eof-in-tag', 17]]);
+  });
+
+  test('unclosed quote', async () => {
+    const { tokens, warnings } = await run(['<a href="/x>link</a>', '<b>bold</b>']);
+    assert.deepEqual(tokens, []);
+    assert.deepEqual(warnings.map(({ code, offset }) => [code, offset]), [['unclosed-quote', 8]]);
+  });
+
+  test('end tag without a name', async () => {
+    assert.deepEqual(await codes('a</>b'), [['missing-end-tag-name', 1]]);
+  });
+
+  test('less-than sign inside a tag', async () => {
+    assert.deepEqual(await codes('<div<span>a'), [['less-than-in-tag', 4]]);
+    assert.deepEqual(await codes('<div class="a" <span>'), [['less-than-in-tag', 15]]);
+    assert.deepEqual(await codes('<a href=x<b>'), [['less-than-in-tag', 9]]);
+    assert.deepEqual(await codes('<a title="<b>">'), []);
+  });
+
+  test('trailing less-than sign is kept as text', async () => {
+    const { tokens, warnings } = await run(['a', 'b<']);
+    assert.deepEqual(tokens, ['ab<']);
+    assert.deepEqual(warnings.map(({ code, offset }) => [code, offset]), [['eof-before-tag-name', 2]]);
+  });
+
+  test('offsets across chunks', async () => {
+    const { warnings } = await run(['<p>abc</p>', '<di', 'v<b>']);
+    assert.deepEqual(warnings.map(({ code, offset }) => [code, offset]), [['less-than-in-tag', 14]]);
+  });
+
+  test('strict mode errors the stream', async () => {
+    await assert.rejects(run(['<p>a</p><!-- x'], { strict: true }), (error: MarkupTokenizerError) => {
+      assert.ok(error instanceof MarkupTokenizerError);
+      assert.equal(error.code, 'eof-in-comment');
+      assert.equal(error.offset, 8);
+      return true;
+    });
+  });
+
+  test('strict mode in tokenize', () => {
+    assert.throws(() => tokenize('<a</a>', { strict: true }), MarkupTokenizerError);
+    assert.equal(tokenize('<a>b</a>', { strict: true }).length, 3);
+  });
+
+});
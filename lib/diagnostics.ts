@@ -0,0 +1,74 @@
+// Parse errors found while tokenizing, reported as warnings or thrown in strict mode
+
+export type DiagnosticCode =
+  | "eof-before-tag-name"
+  | "eof-in-tag"
+  | "unclosed-quote"
+  | "eof-in-comment"
+  | "eof-in-cdata"
+  | "eof-in-processing-instruction"
+  | "eof-in-raw-text"
+  | "eof-in-template"
+  | "missing-end-tag-name"
+  | "less-than-in-tag"
+  // Spec mode only
+  | "invalid-first-character-of-tag-name"
+  | "incorrectly-opened-comment"
+  | "unexpected-question-mark-instead-of-tag-name"
+  | "cdata-in-html-content"
+  // Limits with the "error" action, always thrown
+  | "tag-too-long"
+  | "text-too-long"
+  | "too-many-attributes";
+
+export interface Diagnostic {
+  code: DiagnosticCode;
+  message: string;
+  // Byte offset in the input where the problem starts
+  offset: number;
+}
+
+const MESSAGES: Record<DiagnosticCode, string> = {
+  "eof-before-tag-name": "Unexpected end of input after '<'",
+  "eof-in-tag": "Unexpected end of input inside a tag",
+  "unclosed-quote": "Attribute value quote is never closed",
+  "eof-in-comment": "Comment is never closed",
+  "eof-in-cdata": "CDATA section is never closed",
+  "eof-in-processing-instruction": "Processing instruction is never closed",
+  "eof-in-raw-text": "Element content is never closed",
+  "eof-in-template": "Template is never closed",
+  "missing-end-tag-name": "End tag '</>' has no name",
+  "less-than-in-tag": "Unexpected '<' inside a tag",
+  "invalid-first-character-of-tag-name": "'<' or '</' is not followed by a tag name",
+  "incorrectly-opened-comment": "'<!' does not start a comment or a doctype",
+  "unexpected-question-mark-instead-of-tag-name": "'<?' starts a comment in HTML",
+  "cdata-in-html-content": "CDATA sections are comments outside of SVG and MathML",
+  "tag-too-long": "Tag is longer than maxTagLength",
+  "text-too-long": "Token is longer than maxTextLength",
+  "too-many-attributes": "Tag has more attributes than maxAttributes",
+};
+
+export function createDiagnostic(
+  code: DiagnosticCode,
+  offset: number,
+  // Element name for raw text
+  name?: string
+): Diagnostic {
+  const message =
+    name === undefined
+      ? MESSAGES[code]
+      : MESSAGES[code].replace("Element", `<${name}>`);
+  return { code, message, offset };
+}
+
+export class MarkupTokenizerError extends Error {
+  readonly code: DiagnosticCode;
+  readonly offset: number;
+
+  constructor(diagnostic: Diagnostic) {
+    super(`${diagnostic.message} (at byte ${diagnostic.offset})`);
+    this.name = "MarkupTokenizerError";
+    this.code = diagnostic.code;
+    this.offset = diagnostic.offset;
+  }
+}
@@ -0,0 +1,121 @@
+import { test, describe } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { Readable } from 'stream';
+import { parseDoctype, tokenize, tokens } from './index.js';
+import type { ObjectToken } from './index.js';
+
+const parse = (text: string, mode?: 'html' | 'xml') => parseDoctype(Buffer.from(text), { mode });
+
+describe('parseDoctype', () => {
+
+  test('html5', () => {
+    assert.deepEqual(parse('<!DOCTYPE html>'), {
+      name: 'html',
+      publicId: null,
+      systemId: null,
+      forceQuirks: false,
+      mode: 'no-quirks'
+    });
+    assert.equal(parse('<!doctype HTML>').name, 'html');
+  });
+
+  test('public and system identifiers', () => {
+    const doctype = parse('<!DOCTYPE html PUBLIC "-//W3C//DTD XHTML 1.0 Strict//EN" \'http://www.w3.org/TR/xhtml1/DTD/xhtml1-strict.dtd\'>');
+    assert.equal(doctype.publicId, '-//W3C//DTD XHTML 1.0 Strict//EN');
+    assert.equal(doctype.systemId, 'http://www.w3.org/TR/xhtml1/DTD/xhtml1-strict.dtd');
+    assert.equal(doctype.mode, 'no-quirks');
+    assert.deepEqual(parse('<!DOCTYPE html SYSTEM "about:legacy-compat">'), {
+      name: 'html',
+      publicId: null,
+      systemId: 'about:legacy-compat',
+      forceQuirks: false,
+      mode: 'no-quirks'
+    });
+    assert.equal(parse('<!DOCTYPE html PUBLIC "">').publicId, '');
+  });
+
+  test('quirks mode', () => {
+    for (const text of [
+      '<!DOCTYPE HTML PUBLIC "-//W3C//DTD HTML 4.0 Transitional//EN">',
+      '<!DOCTYPE html PUBLIC "-//IETF//DTD HTML 2.0//EN">',
+      '<!DOCTYPE html PUBLIC "HTML">',
+      '<!DOCTYPE html PUBLIC "-//W3C//DTD HTML 4.01 Transitional//EN">',
+      '<!DOCTYPE html SYSTEM "http://www.ibm.com/data/dtd/v11/ibmxhtml1-transitional.dtd">',
+      '<!DOCTYPE svg>',
+      '<!DOCTYPE>',
+      '<!DOCTYPE html',
+      '<!DOCTYPE html PUBLIC>',
+      '<!DOCTYPE html bogus>'
+    ]) {
+      assert.equal(parse(text).mode, 'quirks', text);
+    }
+  });
+
+  test('limited quirks mode', () => {
+    for (const text of [
+      '<!DOCTYPE html PUBLIC "-//W3C//DTD XHTML 1.0 Transitional//EN" "http://www.w3.org/TR/xhtml1/DTD/xhtml1-transitional.dtd">',
+      '<!DOCTYPE html PUBLIC "-//W3C//DTD XHTML 1.0 Frameset//EN">',
+      '<!DOCTYPE html PUBLIC "-//W3C//DTD HTML 4.01 Transitional//EN" "http://www.w3.org/TR/html4/loose.dtd">'
+    ]) {
+      assert.equal(parse(text).mode, 'limited-quirks', text);
+    }
+  });
+
+  test('malformed doctypes set the force-quirks flag', () => {
+    assert.deepEqual(parse('<!DOCTYPE html PUBLIC "abc>'), {
+      name: 'html',
+      publicId: 'abc',
+      systemId: null,
+      forceQuirks: true,
+      mode: 'quirks'
+    });
+    assert.equal(parse('<!DOCTYPE>').name, null);
+    assert.equal(parse('<!DOCTYPE>').forceQuirks, true);
+    assert.equal(parse('<!DOCTYPE html PUBLIC "a" "b"').forceQuirks, true);
+    // Garbage after the system identifier is ignored
+    assert.equal(parse('<!DOCTYPE html SYSTEM "a" x>').forceQuirks, false);
+  });
+
+  test('missing whitespace', () => {
+    assert.equal(parse('<!DOCTYPEhtml>').name, 'html');
+    const doctype = parse('<!DOCTYPE html PUBLIC"a""b">');
+    assert.deepEqual([doctype.publicId, doctype.systemId, doctype.forceQuirks], ['a', 'b', false]);
+  });
+
+  test('xml', () => {
+    assert.deepEqual(parse('<!DOCTYPE Note SYSTEM "note.dtd">', 'xml'), {
+      name: 'Note',
+      publicId: null,
+      systemId: 'note.dtd',
+      forceQuirks: false,
+      mode: 'no-quirks'
+    });
+  });
+
+});
+
+describe('doctype tokens', () => {
+
+  test('without a space before the name', () => {
+    assert.deepEqual(tokenize('<!DOCTYPEhtml><p>').map(([type]) => type), ['doctype', 'open']);
+  });
+
+  test('object tokens', () => {
+    const [doctype, open] = tokenize('<!DOCTYPE html PUBLIC "-//W3C//DTD HTML 3.2 Final//EN"><p>', { objectTokens: true });
+    assert.equal(doctype.type, 'doctype');
+    assert.equal(doctype.name, null);
+    assert.equal(doctype.doctype!.publicId, '-//W3C//DTD HTML 3.2 Final//EN');
+    assert.equal(doctype.doctype!.mode, 'quirks');
+    assert.equal(open.doctype, undefined);
+  });
+
+  test('across chunks and in spec mode', async () => {
+    for (const options of [{ objectTokens: true as const }, { objectTokens: true as const, spec: true }]) {
+      const result: ObjectToken[] = [];
+      const stream = Readable.from(['<!DOC', 'TYPE ht', 'ml SYS', 'TEM "x">']);
+      for await (const token of tokens(stream, options)) result.push(token);
+      assert.deepEqual(result.map(({ doctype }) => [doctype!.name, doctype!.systemId]), [['html', 'x']]);
+    }
+  });
+
+});
@@ -0,0 +1,206 @@
+import { decode } from "./bytes.js";
+
+// Document mode selected by the doctype, as defined by the HTML standard
+export type QuirksMode = "no-quirks" | "limited-quirks" | "quirks";
+
+export interface Doctype {
+  // Lower-cased in HTML, null when the doctype has no name (`<!DOCTYPE>`)
+  name: string | null;
+  // null when missing, "" for `PUBLIC ""`
+  publicId: string | null;
+  systemId: string | null;
+  // Set by the HTML tokenizer for malformed doctypes (missing name, '>' inside an identifier...)
+  forceQuirks: boolean;
+  mode: QuirksMode;
+}
+
+export interface ParseDoctypeOptions {
+  // Names are case-sensitive in XML, and XML documents are never in quirks mode
+  mode?: "html" | "xml";
+}
+
+// Public identifiers starting with one of these select quirks mode
+const QUIRKS_PREFIXES = [
+  "+//silmaril//dtd html pro v0r11 19970101//",
+  "-//as//dtd html 3.0 aswedit + extensions//",
+  "-//advasoft ltd//dtd html 3.0 aswedit + extensions//",
+  "-//ietf//dtd html 2.0 level 1//",
+  "-//ietf//dtd html 2.0 level 2//",
+  "-//ietf//dtd html 2.0 strict level 1//",
+  "-//ietf//dtd html 2.0 strict level 2//",
+  "-//ietf//dtd html 2.0 strict//",
+  "-//ietf//dtd html 2.0//",
+  "-//ietf//dtd html 2.1e//",
+  "-//ietf//dtd html 3.0//",
+  "-//ietf//dtd html 3.2 final//",
+  "-//ietf//dtd html 3.2//",
+  "-//ietf//dtd html 3//",
+  "-//ietf//dtd html level 0//",
+  "-//ietf//dtd html level 1//",
+  "-//ietf//dtd html level 2//",
+  "-//ietf//dtd html level 3//",
+  "-//ietf//dtd html strict level 0//",
+  "-//ietf//dtd html strict level 1//",
+  "-//ietf//dtd html strict level 2//",
+  "-//ietf//dtd html strict level 3//",
+  "-//ietf//dtd html strict//",
+  "-//ietf//dtd html//",
+  "-//metrius//dtd metrius presentational//",
+  "-//microsoft//dtd internet explorer 2.0 html strict//",
+  "-//microsoft//dtd internet explorer 2.0 html//",
+  "-//microsoft//dtd internet explorer 2.0 tables//",
+  "-//microsoft//dtd internet explorer 3.0 html strict//",
+  "-//microsoft//dtd internet explorer 3.0 html//",
+  "-//microsoft//dtd internet explorer 3.0 tables//",
+  "-//netscape comm. corp.//dtd html//",
+  "-//netscape comm. corp.//dtd strict html//",
+  "-//o'reilly and associates//dtd html 2.0//",
+  "-//o'reilly and associates//dtd html extended 1.0//",
+  "-//o'reilly and associates//dtd html extended relaxed 1.0//",
+  "-//sq//dtd html 2.0 hotmetal + extensions//",
+  "-//softquad software//dtd hotmetal pro 6.0::19990601::extensions to html 4.0//",
+  "-//softquad//dtd hotmetal pro 4.0::19970916::extensions to html 4.0//",
+  "-//spyglass//dtd html 2.0 extended//",
+  "-//sun microsystems corp.//dtd hotjava html//",
+  "-//sun microsystems corp.//dtd hotjava strict html//",
+  "-//w3c//dtd html 3 1995-03-24//",
+  "-//w3c//dtd html 3.2 draft//",
+  "-//w3c//dtd html 3.2 final//",
+  "-//w3c//dtd html 3.2//",
+  "-//w3c//dtd html 3.2s draft//",
+  "-//w3c//dtd html 4.0 frameset//",
+  "-//w3c//dtd html 4.0 transitional//",
+  "-//w3c//dtd html experimental 19960712//",
+  "-//w3c//dtd html experimental 970421//",
+  "-//w3c//dtd w3 html//",
+  "-//w3o//dtd w3 html 3.0//",
+  "-//webtechs//dtd mozilla html 2.0//",
+  "-//webtechs//dtd mozilla html//",
+];
+const QUIRKS_PUBLIC_IDS = [
+  "-//w3o//dtd w3 html strict 3.0//en//",
+  "-/w3c/dtd html 4.0 transitional/en",
+  "html",
+];
+const QUIRKS_SYSTEM_ID =
+  "http://www.ibm.com/data/dtd/v11/ibmxhtml1-transitional.dtd";
+// Quirks without a system identifier, limited quirks with one
+const HTML4_PREFIXES = [
+  "-//w3c//dtd html 4.01 frameset//",
+  "-//w3c//dtd html 4.01 transitional//",
+];
+const LIMITED_QUIRKS_PREFIXES = [
+  "-//w3c//dtd xhtml 1.0 frameset//",
+  "-//w3c//dtd xhtml 1.0 transitional//",
+];
+
+const isSpace = (c: string): boolean =>
+  c === " " || c === "\t" || c === "\n" || c === "\f" || c === "\r";
+
+// ASCII lower-casing, other characters are kept as they are
+const lowerAscii = (text: string): string =>
+  text.replace(/[A-Z]+/g, (upper) => upper.toLowerCase());
+
+/**
+ * Parse a doctype token (`<!DOCTYPE html>`) following the DOCTYPE states of
+ * the HTML standard tokenizer, and compute the document mode it selects.
+ */
+export function parseDoctype(
+  buf: Uint8Array,
+  options: ParseDoctypeOptions = {}
+): Doctype {
+  const xml = options.mode === "xml";
+  const text = decode(buf);
+  // After '<!' and the 7 letters of "doctype"
+  let i = Math.min(9, text.length);
+  const doctype: Doctype = {
+    name: null,
+    publicId: null,
+    systemId: null,
+    forceQuirks: false,
+    mode: "no-quirks",
+  };
+
+  const skipSpaces = () => {
+    while (i < text.length && isSpace(text[i])) i++;
+  };
+
+  // Quoted identifier, null with the force-quirks flag set if it is missing
+  const identifier = (): string | null => {
+    const quote = text[i];
+    if (quote !== '"' && quote !== "'") {
+      doctype.forceQuirks = true;
+      return null;
+    }
+    let end = i + 1;
+    while (end < text.length && text[end] !== quote && text[end] !== ">") end++;
+    const value = text.slice(i + 1, end);
+    if (text[end] !== quote) doctype.forceQuirks = true;
+    i = text[end] === quote ? end + 1 : end;
+    return value;
+  };
+
+  const parse = (): void => {
+    skipSpaces();
+    if (i >= text.length || text[i] === ">") {
+      doctype.forceQuirks = true;
+      return;
+    }
+    const start = i;
+    while (i < text.length && !isSpace(text[i]) && text[i] !== ">") i++;
+    const name = text.slice(start, i);
+    doctype.name = xml ? name : lowerAscii(name);
+
+    skipSpaces();
+    if (i >= text.length) doctype.forceQuirks = true;
+    if (i >= text.length || text[i] === ">") return;
+    const keyword = lowerAscii(text.slice(i, i + 6));
+    if (keyword !== "public" && keyword !== "system") {
+      doctype.forceQuirks = true;
+      return;
+    }
+    i += 6;
+
+    skipSpaces();
+    if (keyword === "public") {
+      doctype.publicId = identifier();
+      if (doctype.publicId === null) return;
+      skipSpaces();
+      // The system identifier is optional after a public one
+      if (i < text.length && text[i] === ">") return;
+    }
+    doctype.systemId = identifier();
+    if (doctype.systemId === null) return;
+    skipSpaces();
+    if (i >= text.length) doctype.forceQuirks = true;
+  };
+
+  parse();
+  if (!xml) doctype.mode = quirksMode(doctype);
+  return doctype;
+}
+
+// Document mode of the "initial" insertion mode of the HTML standard
+function quirksMode(doctype: Doctype): QuirksMode {
+  const publicId =
+    doctype.publicId === null ? null : lowerAscii(doctype.publicId);
+  const systemId =
+    doctype.systemId === null ? null : lowerAscii(doctype.systemId);
+  const startsWith = (prefixes: string[]) =>
+    publicId !== null && prefixes.some((prefix) => publicId.startsWith(prefix));
+
+  if (
+    doctype.forceQuirks ||
+    doctype.name !== "html" ||
+    (publicId !== null && QUIRKS_PUBLIC_IDS.includes(publicId)) ||
+    systemId === QUIRKS_SYSTEM_ID ||
+    startsWith(QUIRKS_PREFIXES) ||
+    (systemId === null && startsWith(HTML4_PREFIXES))
+  ) {
+    return "quirks";
+  }
+  if (startsWith(LIMITED_QUIRKS_PREFIXES) || startsWith(HTML4_PREFIXES)) {
+    return "limited-quirks";
+  }
+  return "no-quirks";
+}
@@ -0,0 +1,160 @@
+import { test, describe } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { Readable } from 'stream';
+import { MarkupTokenizer, tokenize, tokens, sniffEncoding, normalizeEncoding } from './index.js';
+import type { MarkupTokenizerOptions, Token } from './index.js';
+import { Tokenizer } from './tokenizer.js';
+import { nodeBytes } from './buffers.js';
+
+const latin1 = (text: string): Buffer => Buffer.from(text, 'latin1');
+
+const stream = (chunks: Buffer[], options?: MarkupTokenizerOptions): Promise<{ tokens: string[], encoding: string | null, events: string[] }> =>
+  new Promise((resolve, reject) => {
+    const result: string[] = [];
+    const events: string[] = [];
+    const tokenizer = new MarkupTokenizer(options);
+    tokenizer.on('encoding', (encoding) => events.push(`encoding:${encoding}`));
+    tokenizer.on('data', (token: Token) => {
+      events.push('token');
+      result.push(token[1].toString());
+    });
+    tokenizer.on('end', () => resolve({ tokens: result, encoding: tokenizer.encoding, events }));
+    tokenizer.on('error', reject);
+    Readable.from(chunks).pipe(tokenizer);
+  });
+
+describe('sniffEncoding', () => {
+
+  test('byte order marks', () => {
+    assert.equal(sniffEncoding(Buffer.from([0xef, 0xbb, 0xbf, 0x3c])), 'utf-8');
+    assert.equal(sniffEncoding(Buffer.from([0xfe, 0xff, 0, 0x3c])), 'utf-16be');
+    assert.equal(sniffEncoding(Buffer.from([0xff, 0xfe, 0x3c, 0])), 'utf-16le');
+  });
+
+  test('meta charset', () => {
+    assert.equal(sniffEncoding(latin1('<html><head><META CHARSET=Shift_JIS>')), 'shift_jis');
+    assert.equal(sniffEncoding(latin1('<meta charset="latin1">')), 'windows-1252');
+  });
+
+  test('meta http-equiv', () => {
+    assert.equal(
+      sniffEncoding(latin1('<meta http-equiv="Content-Type" content="text/html; charset=euc-jp">')),
+      'euc-jp'
+    );
+    assert.equal(sniffEncoding(latin1('<meta content="text/html; charset=euc-jp">')), null);
+  });
+
+  test('xml declaration', () => {
+    assert.equal(sniffEncoding(latin1('<?xml version="1.0" encoding="ISO-8859-2"?><a/>')), 'iso-8859-2');
+  });
+
+  test('declarations that cannot apply', () => {
+    // Bytes read as ASCII cannot be UTF-16
+    assert.equal(sniffEncoding(latin1('<meta charset="utf-16">')), 'utf-8');
+    assert.equal(sniffEncoding(latin1('<meta charset="x-user-defined">')), 'windows-1252');
+    assert.equal(sniffEncoding(latin1('<meta charset="nope"><meta charset="utf-8">')), 'utf-8');
+  });
+
+  test('comments, end tags and the first kilobyte only', () => {
+    assert.equal(sniffEncoding(latin1('<!-- <meta charset="big5"> --></meta charset="big5"><p>')), null);
+    assert.equal(sniffEncoding(latin1(' '.repeat(1024) + '<meta charset="big5">')), null);
+  });
+
+  test('normalizeEncoding', () => {
+    assert.equal(normalizeEncoding(' UTF8 '), 'utf-8');
+    assert.equal(normalizeEncoding('ascii'), 'windows-1252');
+    assert.equal(normalizeEncoding('nope'), null);
+  });
+
+});
+
+describe('encoding option', () => {
+
+  test('utf-8 by default, bytes untouched', async () => {
+    const input = Buffer.from('<p>é</p>', 'utf8');
+    const result = await stream([input]);
+    assert.equal(result.encoding, 'utf-8');
+    assert.deepEqual(Buffer.concat(tokenize(input).map(token => token[1])), input);
+  });
+
+  test('utf-8 byte order mark', async () => {
+    const input = Buffer.from('\ufeff<p>é</p>', 'utf8');
+    const result = await stream([...input].map(byte => Buffer.from([byte])));
+    assert.equal(result.encoding, 'utf-8');
+    assert.deepEqual(result.tokens, ['<p>', 'é', '</p>']);
+    assert.deepEqual(tokenize(input, { positions: true }).map(([, buf, position]) => [buf.toString(), position]), [
+      ['<p>', { start: 3, end: 6, line: 1, column: 1 }],
+      ['é', { start: 6, end: 8, line: 1, column: 4 }],
+      ['</p>', { start: 8, end: 12, line: 1, column: 5 }]
+    ]);
+    // The mark is text when the encoding is given
+    assert.equal(tokenize(input, { encoding: 'utf-8' })[0][1].toString(), '\ufeff');
+  });
+
+  test('windows-1252 from meta', async () => {
+    const result = await stream([latin1('<meta charset="windows-1252"><p>caf\xe9 \x80</p>')]);
+    assert.equal(result.encoding, 'windows-1252');
+    assert.deepEqual(result.tokens, ['<meta charset="windows-1252">', '<p>', 'café €', '</p>']);
+  });
+
+  test('shift_jis split across chunks', async () => {
+    const input = Buffer.concat([latin1('<meta charset="shift_jis"><p>'), Buffer.from([0x93, 0xfa, 0x96, 0x7b]), latin1('</p>')]);
+    const chunks = [...input].map(byte => Buffer.from([byte]));
+    const result = await stream(chunks);
+    assert.equal(result.encoding, 'shift_jis');
+    assert.deepEqual(result.tokens, ['<meta charset="shift_jis">', '<p>', '日本', '</p>']);
+  });
+
+  test('utf-16 with byte order mark', async () => {
+    const result = await stream([Buffer.from('\ufeff<p class="a">é</p>', 'utf16le')]);
+    assert.equal(result.encoding, 'utf-16le');
+    assert.deepEqual(result.tokens, ['<p class="a">', 'é', '</p>']);
+  });
+
+  test('positions are input offsets', () => {
+    const cases: [Buffer, string][] = [
+      [latin1('<meta charset="windows-1252"><p title="\xe9">caf\xe9 \xfc</p><a b="\xe9'), 'windows-1252'],
+      [Buffer.from('\ufeff<p title="é">日本 😀</p><a b="é', 'utf16le'), 'utf-16le'],
+      [Buffer.concat([latin1('<meta charset="shift_jis"><p>'), Buffer.from([0x93, 0xfa, 0x96, 0x7b]), latin1('</p><a b="x')]), 'shift_jis'],
+      [Buffer.from('\ufeff<p>é</p><a b="é', 'utf8'), 'utf-8']
+    ];
+    for (const [input, encoding] of cases) {
+      const decoder = new TextDecoder(encoding);
+      for (const size of [1, 3, input.length]) {
+        const tokens: Token[] = [];
+        const tokenizer = new Tokenizer({ positions: true }, token => tokens.push(token as Token), nodeBytes);
+        for (let i = 0; i < input.length; i += size) tokenizer.write(input.subarray(i, i + size));
+        tokenizer.end();
+        for (const [, buf, position] of tokens) {
+          assert.equal(decoder.decode(input.subarray(position!.start, position!.end)), buf.toString(), `${encoding} in chunks of ${size}`);
+        }
+        const quote = input.lastIndexOf(encoding === 'utf-16le' ? '"\0' : '"', undefined, encoding === 'utf-16le' ? 'latin1' : undefined);
+        assert.deepEqual(tokenizer.diagnostics.map(({ code, offset }) => [code, offset]), [['unclosed-quote', quote]]);
+      }
+    }
+  });
+
+  test('explicit encoding skips sniffing', async () => {
+    const result = await stream([latin1('<meta charset="shift_jis"><p>\xe9</p>')], { encoding: 'latin1' });
+    assert.equal(result.encoding, 'windows-1252');
+    assert.deepEqual(result.tokens.slice(2), ['é', '</p>']);
+  });
+
+  test('unsupported encoding throws', () => {
+    assert.throws(() => new MarkupTokenizer({ encoding: 'nope' }), RangeError);
+  });
+
+  test('encoding event comes before the first token', async () => {
+    const result = await stream([latin1('<p>a</p>'.repeat(200))]);
+    assert.deepEqual(result.events.slice(0, 2), ['encoding:utf-8', 'token']);
+  });
+
+  test('strings are not sniffed', async () => {
+    const input = '<meta charset="shift_jis"><p>日本</p>';
+    assert.equal(tokenize(input)[2][1].toString(), '日本');
+    const result: string[] = [];
+    for await (const token of tokens(Readable.from([input]))) result.push(token[1].toString());
+    assert.equal(result[2], '日本');
+  });
+
+});
@@ -0,0 +1,338 @@
+import { LT, GT, SLASH } from "./chars.js";
+import { parseTag } from "./tag.js";
+import { encode, decode, toBase64, fromBase64 } from "./bytes.js";
+import type { Bytes } from "./bytes.js";
+
+// Number of bytes searched for a declared encoding, as browsers do
+export const PRESCAN_SIZE = 1024;
+
+const COMMENT_START = encode("<!--");
+const COMMENT_END = encode("-->");
+const XML_DECLARATION = encode("<?xml");
+
+// Encodings decoded byte by byte, never holding bytes between chunks
+const SINGLE_BYTE =
+  /^(?:ibm866|iso-8859-\d+|koi8-[ru]|macintosh|windows-\d+|x-mac-cyrillic)$/;
+
+const CHARSET = /charset\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s;"']+))/i;
+const XML_ENCODING = /encoding\s*=\s*(?:"([^"]*)"|'([^']*)')/;
+
+function indexOf(buf: Uint8Array, search: Uint8Array, from: number): number {
+  const last = buf.length - search.length;
+  for (let i = buf.indexOf(search[0], from); i !== -1 && i <= last; ) {
+    let j = 1;
+    while (j < search.length && buf[i + j] === search[j]) j++;
+    if (j === search.length) return i;
+    i = buf.indexOf(search[0], i + 1);
+  }
+  return -1;
+}
+
+/**
+ * Resolve an encoding label (`latin1`, `Shift-JIS`...) to its canonical
+ * name, or null when it is not supported by TextDecoder.
+ */
+export function normalizeEncoding(label: string): string | null {
+  try {
+    return new TextDecoder(label.trim()).encoding;
+  } catch {
+    return null;
+  }
+}
+
+// Encoding declared inside the document, which cannot be UTF-16 once we can read it
+function declared(label: string): string | null {
+  if (label.trim().toLowerCase() === "x-user-defined") return "windows-1252";
+  const encoding = normalizeEncoding(label);
+  return encoding === "utf-16le" || encoding === "utf-16be"
+    ? "utf-8"
+    : encoding;
+}
+
+function sniffBOM(buf: Uint8Array): string | null {
+  if (buf[0] === 0xef && buf[1] === 0xbb && buf[2] === 0xbf) return "utf-8";
+  if (buf[0] === 0xfe && buf[1] === 0xff) return "utf-16be";
+  if (buf[0] === 0xff && buf[1] === 0xfe) return "utf-16le";
+  return null;
+}
+
+function metaCharset(tag: Uint8Array): string | null {
+  const { name, attributes } = parseTag(tag, { decodeEntities: true });
+  if (name !== "meta") return null;
+  let httpEquiv = false;
+  let content: string | null = null;
+  for (const attribute of attributes) {
+    const value = attribute.value ?? "";
+    if (attribute.name === "charset") return value;
+    if (attribute.name === "http-equiv") {
+      httpEquiv = value.trim().toLowerCase() === "content-type";
+    } else if (attribute.name === "content" && content === null) {
+      content = value;
+    }
+  }
+  if (!httpEquiv || content === null) return null;
+  const match = CHARSET.exec(content);
+  return match ? match[1] ?? match[2] ?? match[3] : null;
+}
+
+/**
+ * Look for the encoding of a document in its byte order mark, then in a
+ * `<meta>` tag or an XML declaration within its first kilobyte.
+ */
+export function sniffEncoding(buf: Uint8Array): string | null {
+  const bom = sniffBOM(buf);
+  if (bom) return bom;
+
+  const head = buf.subarray(0, PRESCAN_SIZE);
+  if (indexOf(head, XML_DECLARATION, 0) === 0) {
+    const end = head.indexOf(GT);
+    const declaration = decode(head, 0, end === -1 ? head.length : end);
+    const match = XML_ENCODING.exec(declaration);
+    if (match) return declared(match[1] ?? match[2]);
+  }
+
+  let i = 0;
+  while ((i = head.indexOf(LT, i)) !== -1) {
+    if (indexOf(head, COMMENT_START, i) === i) {
+      const end = indexOf(head, COMMENT_END, i + COMMENT_START.length);
+      if (end === -1) break;
+      i = end + COMMENT_END.length;
+      continue;
+    }
+    const end = head.indexOf(GT, i);
+    if (end === -1) break;
+    if (head[i + 1] !== SLASH) {
+      const label = metaCharset(head.subarray(i, end + 1));
+      const encoding = label === null ? null : declared(label);
+      if (encoding) return encoding;
+    }
+    i = end + 1;
+  }
+  return null;
+}
+
+// Input bytes per UTF-16 code unit of the decoded text, 0 when it varies
+function unitBytes(encoding: string): number {
+  if (encoding === "utf-16le" || encoding === "utf-16be") return 2;
+  return SINGLE_BYTE.test(encoding) ? 1 : 0;
+}
+
+// Transcoder fields in a snapshot
+export interface TranscoderState {
+  encoding: string | null;
+  // Base64 bytes waiting for the encoding to be detected
+  pending: string;
+  offsets: number[];
+  outputLength: number;
+  inputLength: number;
+}
+
+/**
+ * Turn input bytes into UTF-8 before they reach the state machine. UTF-8
+ * input is passed through untouched, but for a byte order mark telling it.
+ * Offsets in the output are mapped back to the input.
+ */
+export class Transcoder {
+  // Detected or configured encoding, null until known
+  encoding: string | null = null;
+  private decoder: InstanceType<typeof TextDecoder> | null = null;
+  private unit: number = 0;
+  private pending: Uint8Array[] = [];
+  private pendingLength: number = 0;
+  // [output, input] offset pairs, from which output and input bytes match
+  // one for one up to the next pair
+  private offsets: number[] = [];
+  // Bytes of decoded characters, and input bytes of the next character read so far
+  private outputLength: number = 0;
+  private inputLength: number = 0;
+  private partial: number = 0;
+
+  constructor(
+    // "auto" or an encoding label
+    label: string,
+    private output: (buf: Uint8Array) => void,
+    private bytes: Bytes
+  ) {
+    if (label !== "auto") {
+      const encoding = normalizeEncoding(label);
+      if (encoding === null) {
+        throw new RangeError(`Unsupported encoding "${label}"`);
+      }
+      this._use(encoding);
+    }
+  }
+
+  write(buf: Uint8Array): void {
+    if (this.encoding !== null) return this._decode(buf);
+    // Wait for enough bytes to find a declaration
+    this.pending.push(buf);
+    this.pendingLength += buf.length;
+    if (this.pendingLength >= PRESCAN_SIZE) this._detect();
+  }
+
+  end(): void {
+    if (this.encoding === null) this._detect();
+    if (this.decoder) {
+      const text = this.decoder.decode();
+      if (text.length > 0) {
+        if (this.unit > 0) this._map(text);
+        else this._advance(utf8Length(text), this.partial);
+        this.output(this.bytes.encode(text));
+      }
+    }
+  }
+
+  // Input offset of the output byte at `offset`
+  inputOffset(offset: number): number {
+    const k = this._pair(offset);
+    if (k === -1) return offset;
+    return this.offsets[2 * k + 1] + offset - this.offsets[2 * k];
+  }
+
+  /**
+   * Forget how output offsets strictly between `from` and `to` map to the
+   * input, which are never asked for again.
+   */
+  forget(from: number, to: number): void {
+    if (this.offsets.length <= 2) return;
+    const first = this._pair(from) + 1;
+    const last = this._pair(to);
+    if (last > first) this.offsets.splice(2 * first, 2 * (last - first));
+  }
+
+  /**
+   * Multi-byte decoders may hold part of a character that cannot be read
+   * back, so their state is not saved.
+   */
+  snapshot(): TranscoderState {
+    const encoding = this.encoding;
+    if (encoding !== null && encoding !== "utf-8" && !SINGLE_BYTE.test(encoding)) {
+      throw new RangeError(`Snapshots are not supported for ${encoding} input`);
+    }
+    return {
+      encoding,
+      pending: toBase64(this.bytes.concat(this.pending)),
+      offsets: [...this.offsets],
+      outputLength: this.outputLength,
+      inputLength: this.inputLength,
+    };
+  }
+
+  restore(state: TranscoderState): void {
+    this.encoding = null;
+    this.decoder = null;
+    if (state.encoding !== null) this._use(state.encoding);
+    const pending = fromBase64(state.pending);
+    this.pending = pending.length > 0 ? [this.bytes.concat([pending])] : [];
+    this.pendingLength = pending.length;
+    this.offsets = [...state.offsets];
+    this.outputLength = state.outputLength;
+    this.inputLength = state.inputLength;
+  }
+
+  private _detect(): void {
+    const pending = this.pending;
+    this.pending = [];
+    this.pendingLength = 0;
+    const head =
+      pending.length === 1 ? pending[0] : this.bytes.concat(pending);
+    const encoding = sniffEncoding(head) ?? "utf-8";
+    this._use(encoding);
+    // Decoders drop the other byte order marks
+    let bom = encoding === "utf-8" && sniffBOM(head) ? 3 : 0;
+    if (bom > 0) this._advance(0, bom);
+    // Keep chunk boundaries
+    for (const buf of pending) {
+      const start = Math.min(bom, buf.length);
+      bom -= start;
+      if (start < buf.length) this._decode(buf.subarray(start));
+    }
+  }
+
+  private _use(encoding: string): void {
+    this.encoding = encoding;
+    if (encoding === "utf-8") return;
+    this.unit = unitBytes(encoding);
+    // Byte order marks are dropped here, to count their bytes
+    this.decoder = new TextDecoder(encoding, { ignoreBOM: true });
+  }
+
+  private _decode(buf: Uint8Array): void {
+    const decoder = this.decoder;
+    if (decoder === null) return this.output(buf);
+    let text: string;
+    if (this.unit > 0) {
+      text = decoder.decode(buf, { stream: true });
+      if (this.unit === 2 && this.inputLength === 0 && text[0] === "\ufeff") {
+        this._advance(0, 2);
+        text = text.slice(1);
+      }
+      this._map(text);
+    } else {
+      // Characters of variable length are decoded byte by byte to know
+      // where each one starts
+      text = "";
+      for (let i = 0; i < buf.length; i++) {
+        this.partial++;
+        const chars = decoder.decode(buf.subarray(i, i + 1), { stream: true });
+        if (chars.length === 0) continue;
+        this._advance(utf8Length(chars), this.partial);
+        text += chars;
+      }
+    }
+    if (text.length > 0) this.output(this.bytes.encode(text));
+  }
+
+  // Count the characters of `text`, of `unit` input bytes per code unit
+  private _map(text: string): void {
+    const unit = this.unit;
+    for (let j = 0; j < text.length; j++) {
+      const c = text.charCodeAt(j);
+      if (c < 0x80 && unit === 1) {
+        this.outputLength++;
+        this.inputLength++;
+      } else if (c >= 0xd800 && c <= 0xdbff) {
+        // Surrogate pairs are 4 bytes in UTF-8 too
+        j++;
+        this._advance(4, 2 * unit);
+      } else {
+        this._advance(c < 0x80 ? 1 : c < 0x800 ? 2 : 3, unit);
+      }
+    }
+  }
+
+  private _advance(output: number, input: number): void {
+    this.outputLength += output;
+    this.inputLength += input;
+    this.partial = 0;
+    if (output !== input) this.offsets.push(this.outputLength, this.inputLength);
+  }
+
+  // Number of the last pair at or before output `offset`, or -1
+  private _pair(offset: number): number {
+    const offsets = this.offsets;
+    let low = 0;
+    let high = offsets.length / 2;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (offsets[2 * middle] <= offset) low = middle + 1;
+      else high = middle;
+    }
+    return low - 1;
+  }
+}
+
+// Length in UTF-8 of well-formed text
+function utf8Length(text: string): number {
+  let length = 0;
+  for (let j = 0; j < text.length; j++) {
+    const c = text.charCodeAt(j);
+    if (c >= 0xd800 && c <= 0xdbff) {
+      length += 4;
+      j++;
+    } else {
+      length += c < 0x80 ? 1 : c < 0x800 ? 2 : 3;
+    }
+  }
+  return length;
+}
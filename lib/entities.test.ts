@@ -0,0 +1,57 @@
+import { test, describe } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { decodeEntities, parseTag, tokenize } from './index.js';
+
+describe('decodeEntities', () => {
+
+  test('text without references', () => {
+    assert.equal(decodeEntities('hello world'), 'hello world');
+    assert.equal(decodeEntities('a & b'), 'a & b');
+  });
+
+  test('named references', () => {
+    assert.equal(decodeEntities('&lt;p&gt; &amp;&nbsp;&copy;'), '<p> & ©');
+    assert.equal(decodeEntities('&NotNestedGreaterGreater;&fjlig;'), '⪢̸fj');
+  });
+
+  test('numeric references', () => {
+    assert.equal(decodeEntities('&#39;&#x27;&#X27;&#128512;'), "'''😀");
+    assert.equal(decodeEntities('&#65&#x42 '), 'AB ');
+  });
+
+  test('invalid numeric references', () => {
+    assert.equal(decodeEntities('&#0;&#xD800;&#x110000;&#99999999999;'), '����');
+    assert.equal(decodeEntities('&#x80;&#150;'), '€–');
+    assert.equal(decodeEntities('&#;&#x;&#a'), '&#;&#x;&#a');
+  });
+
+  test('unknown references are left untouched', () => {
+    assert.equal(decodeEntities('&foo; &hellip &'), '&foo; &hellip &');
+  });
+
+  test('object properties are no references', () => {
+    const input = '&constructor; &toString; &valueOf; &__proto__; &hasOwnProperty;';
+    assert.equal(decodeEntities(input), input);
+    assert.equal(decodeEntities(input, { mode: 'xml' }), input);
+    assert.equal(decodeEntities(input, { attribute: true }), input);
+    assert.equal(tokenize(`<p>${input}</p>`, { decodeEntities: true })[1][1].toString(), input);
+    assert.equal(parseTag(Buffer.from('<a title="&valueOf;">'), { decodeEntities: true }).attributes[0].value, '&valueOf;');
+  });
+
+  test('missing semicolons', () => {
+    assert.equal(decodeEntities('&amp &amp2; &copy2024 &notit; &notin;'), '& &2; ©2024 ¬it; ∉');
+    // Only legacy references may omit the semicolon
+    assert.equal(decodeEntities('&hellip'), '&hellip');
+  });
+
+  test('attribute values', () => {
+    const options = { attribute: true };
+    assert.equal(decodeEntities('?a=1&copy=2&amp;b', options), '?a=1&copy=2&b');
+    assert.equal(decodeEntities('&notit &copy; &amp', options), '&notit © &');
+  });
+
+  test('xml mode', () => {
+    const options = { mode: 'xml' as const };
+    assert.equal(decodeEntities('&lt;&apos;&nbsp;&amp &#x41;', options), "<'&nbsp;&amp A");
+  });
+});
@@ -0,0 +1,147 @@
+import { EQUAL } from "./chars.js";
+import { NAMED_ENTITIES, LEGACY_ENTITIES } from "./named-entities.js";
+
+const HASH = 35; // '#'
+const SEMICOLON = 59; // ';'
+
+// Predefined XML entities
+const XML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+// Numeric references in the C1 range are decoded as windows-1252
+const C1_REPLACEMENTS: Record<number, number> = {
+  0x80: 0x20ac,
+  0x82: 0x201a,
+  0x83: 0x0192,
+  0x84: 0x201e,
+  0x85: 0x2026,
+  0x86: 0x2020,
+  0x87: 0x2021,
+  0x88: 0x02c6,
+  0x89: 0x2030,
+  0x8a: 0x0160,
+  0x8b: 0x2039,
+  0x8c: 0x0152,
+  0x8e: 0x017d,
+  0x91: 0x2018,
+  0x92: 0x2019,
+  0x93: 0x201c,
+  0x94: 0x201d,
+  0x95: 0x2022,
+  0x96: 0x2013,
+  0x97: 0x2014,
+  0x98: 0x02dc,
+  0x99: 0x2122,
+  0x9a: 0x0161,
+  0x9b: 0x203a,
+  0x9c: 0x0153,
+  0x9e: 0x017e,
+  0x9f: 0x0178,
+};
+
+export interface DecodeEntitiesOptions {
+  // Apply the rules of attribute values (e.g. `?a=1&copy=2` is left untouched)
+  attribute?: boolean;
+  // Only decode the predefined XML entities and numeric references
+  mode?: "html" | "xml";
+}
+
+const isDigit = (c: number): boolean => c >= 48 && c <= 57;
+
+const isHexDigit = (c: number): boolean =>
+  isDigit(c) || (c >= 65 && c <= 70) || (c >= 97 && c <= 102);
+
+// Entity tables are plain objects: `&constructor;` is no reference
+const hasOwn = (table: Record<string, string>, name: string): boolean =>
+  Object.prototype.hasOwnProperty.call(table, name);
+
+const isAlphanumeric = (c: number): boolean =>
+  isDigit(c) || (c >= 65 && c <= 90) || (c >= 97 && c <= 122);
+
+function fromCodePoint(code: number): string {
+  if (code === 0 || code > 0x10ffff || (code >= 0xd800 && code <= 0xdfff)) {
+    return "�";
+  }
+  return String.fromCodePoint(C1_REPLACEMENTS[code] ?? code);
+}
+
+/**
+ * Decode named and numeric character references, following the HTML rules
+ * for missing semicolons and references inside attribute values.
+ */
+export function decodeEntities(
+  input: string,
+  options: DecodeEntitiesOptions = {}
+): string {
+  let i = input.indexOf("&");
+  if (i === -1) return input;
+
+  const attribute = options.attribute ?? false;
+  const xml = options.mode === "xml";
+  const len = input.length;
+  let result = "";
+  let last = 0;
+
+  for (; i !== -1; i = input.indexOf("&", i)) {
+    const start = i++;
+    let value: string | undefined;
+
+    // Numeric reference
+    if (input.charCodeAt(i) === HASH) {
+      const hex = (input.charCodeAt(i + 1) | 0x20) === 120; // 'x' or 'X'
+      let j = hex ? i + 2 : i + 1;
+      const digits = j;
+      let code = 0;
+      for (; j < len; j++) {
+        const c = input.charCodeAt(j);
+        if (hex ? !isHexDigit(c) : !isDigit(c)) break;
+        // Saturate to keep out-of-range references out-of-range
+        if (code <= 0x10ffff) code = code * (hex ? 16 : 10) + parseInt(input[j], 16);
+      }
+      if (j === digits) continue;
+      if (input.charCodeAt(j) === SEMICOLON) j++;
+      value = fromCodePoint(code);
+      i = j;
+    }
+    // Named reference
+    else {
+      let j = i;
+      while (j < len && isAlphanumeric(input.charCodeAt(j))) j++;
+      if (j === i) continue;
+      const name = input.slice(i, j);
+
+      if (input.charCodeAt(j) === SEMICOLON) {
+        const table = xml ? XML_ENTITIES : NAMED_ENTITIES;
+        if (hasOwn(table, name)) {
+          value = table[name];
+          i = j + 1;
+        }
+      }
+
+      // Longest legacy reference without a semicolon
+      if (value === undefined && !xml) {
+        for (let k = Math.min(j, i + 6); k > i; k--) {
+          const legacy = input.slice(i, k);
+          if (!LEGACY_ENTITIES.has(legacy)) continue;
+          const next = input.charCodeAt(k);
+          if (!attribute || (next !== EQUAL && !isAlphanumeric(next))) {
+            value = NAMED_ENTITIES[legacy];
+            i = k;
+          }
+          break;
+        }
+      }
+      if (value === undefined) continue;
+    }
+
+    result += input.slice(last, start) + value;
+    last = i;
+  }
+
+  return last === 0 ? input : result + input.slice(last);
+}
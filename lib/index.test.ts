@@ -1,11 +1,13 @@
 import { test, describe } from 'node:test';
 import { strict as assert } from 'node:assert';
 import { Readable } from 'stream';
-import { MarkupTokenizer } from './index.js';
+import { MarkupTokenizer, tokenize as tokenizeSync, tokens as tokenIterator } from './index.js';
+import type { TokenPosition } from './index.js';
 
-type Token = [string, Buffer];
+type Token = [string, Buffer, TokenPosition?];
+type Options = ConstructorParameters<typeof MarkupTokenizer>[0];
 
-const tokenize = (input: string, options?: {ignoreText?: boolean}): Promise<Token[]> =>
+const tokenize = (input: string, options?: Options): Promise<Token[]> =>
   new Promise((resolve, reject) => {
     const tokens: Token[] = [];
     const tokenizer = new MarkupTokenizer(options);
@@ -24,10 +26,10 @@ const tokenize = (input: string, options?: {ignoreText?: boolean}): Promise<Toke
     readable.pipe(tokenizer);
   });
 
-const tokenizeStreaming = (chunks: string[]): Promise<Token[]> =>
+const tokenizeStreaming = (chunks: string[], options?: Options): Promise<Token[]> =>
   new Promise((resolve, reject) => {
     const tokens: Token[] = [];
-    const tokenizer = new MarkupTokenizer();
+    const tokenizer = new MarkupTokenizer(options);
     
     tokenizer.on('data', (token: Token) => {
       tokens.push(token);
@@ -101,6 +103,37 @@ describe('MarkupTokenizer', () => {
   describe('Comments', () => {
     test('simple comment', async () => {
       const tokens = await tokenize('<!-- hello -->');
+      assert.equal(tokens.length, 1);
+      assert.equal(tokens[0][0], 'comment');
+      assert.equal(bufferToString(tokens[0][1]), '<!-- hello -->');
+    });
+
+    test('comment with markup inside', async () => {
+      const tokens = await tokenize('<div><!-- <div>test</div> --></div>');
+      assert.equal(tokens.length, 3);
+      assert.equal(tokens[1][0], 'comment');
+      assert.equal(bufferToString(tokens[1][1]), '<!-- <div>test</div> -->');
+      assert.equal(tokens[2][0], 'close');
+    });
+
+    test('empty comments', async () => {
+      const tokens = await tokenize('<!---->a<!-->');
+      assert.equal(tokens.length, 3);
+      assert.equal(bufferToString(tokens[0][1]), '<!---->');
+      assert.equal(bufferToString(tokens[2][1]), '<!-->');
+    });
+
+    test('comment start inside attribute value', async () => {
+      const tokens = await tokenize('<a title="<!--">x</a>');
+      assert.equal(tokens.length, 3);
+      assert.equal(tokens[0][0], 'open');
+      assert.equal(bufferToString(tokens[0][1]), '<a title="<!--">');
+    });
+  });
+
+  describe('Split comments', () => {
+    test('simple comment', async () => {
+      const tokens = await tokenize('<!-- hello -->', { splitComments: true });
       assert.equal(tokens.length, 3);
       assert.equal(tokens[0][0], 'open');
       assert.equal(bufferToString(tokens[0][1]), '<!--');
@@ -111,7 +144,7 @@ describe('MarkupTokenizer', () => {
     });
 
     test('comment with markup inside', async () => {
-      const tokens = await tokenize('<!-- <div>test</div> -->');
+      const tokens = await tokenize('<!-- <div>test</div> -->', { splitComments: true });
       assert.equal(tokens.length, 3);
       assert.equal(tokens[0][0], 'open');
       assert.equal(bufferToString(tokens[0][1]), '<!--');
@@ -122,7 +155,7 @@ describe('MarkupTokenizer', () => {
     });
 
     test('comment with loose angle brackets', async () => {
-      const tokens = await tokenize('<!-- < > < test > -->');
+      const tokens = await tokenize('<!-- < > < test > -->', { splitComments: true });
       assert.equal(tokens.length, 3);
       assert.equal(tokens[0][0], 'open');
       assert.equal(bufferToString(tokens[0][1]), '<!--');
@@ -133,7 +166,7 @@ describe('MarkupTokenizer', () => {
     });
 
     test('multiple comments', async () => {
-      const tokens = await tokenize('<!-- first -->text<!-- second -->');
+      const tokens = await tokenize('<!-- first -->text<!-- second -->', { splitComments: true });
       assert.equal(tokens.length, 7);
       assert.equal(tokens[0][0], 'open');
       assert.equal(bufferToString(tokens[0][1]), '<!--');
@@ -153,6 +186,53 @@ describe('MarkupTokenizer', () => {
   });
 
 
+  describe('Declarations', () => {
+    test('doctype', async () => {
+      const tokens = await tokenize('<!DOCTYPE html><html>');
+      assert.equal(tokens.length, 2);
+      assert.equal(tokens[0][0], 'doctype');
+      assert.equal(bufferToString(tokens[0][1]), '<!DOCTYPE html>');
+      assert.equal(tokens[1][0], 'open');
+    });
+
+    test('lower-case doctype with identifiers', async () => {
+      const input = '<!doctype html PUBLIC "-//W3C//DTD XHTML 1.0 Strict//EN" "http://www.w3.org/TR/xhtml1/DTD/xhtml1-strict.dtd">';
+      const tokens = await tokenize(input);
+      assert.equal(tokens.length, 1);
+      assert.equal(tokens[0][0], 'doctype');
+      assert.equal(bufferToString(tokens[0][1]), input);
+    });
+
+    test('processing instruction', async () => {
+      const tokens = await tokenize('<?xml version="1.0" encoding="UTF-8"?><rss>');
+      assert.equal(tokens.length, 2);
+      assert.equal(tokens[0][0], 'pi');
+      assert.equal(bufferToString(tokens[0][1]), '<?xml version="1.0" encoding="UTF-8"?>');
+      assert.equal(tokens[1][0], 'open');
+    });
+
+    test('cdata', async () => {
+      const tokens = await tokenize('<x><![CDATA[ <b>a</b> ]]></x>');
+      assert.equal(tokens.length, 3);
+      assert.equal(tokens[1][0], 'cdata');
+      assert.equal(bufferToString(tokens[1][1]), '<![CDATA[ <b>a</b> ]]>');
+      assert.equal(tokens[2][0], 'close');
+    });
+
+    test('cdata split across chunks', async () => {
+      const tokens = await tokenizeStreaming(['<![CD', 'ATA[a]', ']>b']);
+      assert.equal(tokens.length, 2);
+      assert.equal(tokens[0][0], 'cdata');
+      assert.equal(bufferToString(tokens[0][1]), '<![CDATA[a]]>');
+      assert.equal(tokens[1][0], 'text');
+    });
+
+    test('declarations with text ignored', async () => {
+      const tokens = await tokenize('<!DOCTYPE html>a<![CDATA[b]]>', { ignoreText: true });
+      assert.deepEqual(tokens.map(token => token[0]), ['doctype', 'cdata']);
+    });
+  });
+
   describe('Script tags', () => {
     test('simple script', async () => {
       const tokens = await tokenize('<script>alert("hello");</script>');
@@ -236,6 +316,85 @@ describe('MarkupTokenizer', () => {
     });
   });
 
+  describe('Raw text and RCDATA elements', () => {
+    const pairs = (tokens: Token[]) => tokens.map(token => [token[0], bufferToString(token[1])]);
+
+    test('textarea', async () => {
+      const tokens = await tokenize('<textarea name="a"><b>hello</b></TEXTAREA>');
+      assert.deepEqual(pairs(tokens), [
+        ['open', '<textarea name="a">'],
+        ['text', '<b>hello</b>'],
+        ['close', '</TEXTAREA>']
+      ]);
+    });
+
+    test('elements with long names', async () => {
+      for (const name of ['noscript', 'noframes', 'noembed', 'iframe', 'xmp']) {
+        const tokens = await tokenizeStreaming([`<${name}><p>a</`, `${name.slice(0, 4)}`, `${name.slice(4)}>`]);
+        assert.deepEqual(pairs(tokens), [
+          ['open', `<${name}>`],
+          ['text', '<p>a'],
+          ['close', `</${name}>`]
+        ]);
+      }
+    });
+
+    test('plaintext consumes the rest of the stream', async () => {
+      const tokens = await tokenizeStreaming(['a<plaintext><b>', '</plaintext></b>']);
+      assert.deepEqual(pairs(tokens), [
+        ['text', 'a'],
+        ['open', '<plaintext>'],
+        ['text', '<b></plaintext></b>']
+      ]);
+    });
+
+    test('plaintext with text ignored', async () => {
+      const tokens = await tokenize('<plaintext><b></b>', { ignoreText: true });
+      assert.deepEqual(pairs(tokens), [['open', '<plaintext>']]);
+    });
+
+    test('custom raw text elements', async () => {
+      const tokens = await tokenize('<style><b></b></style><my-code><b></b></my-code>', {
+        rawTextElements: ['my-code']
+      });
+      assert.deepEqual(pairs(tokens), [
+        ['open', '<style>'],
+        ['open', '<b>'],
+        ['close', '</b>'],
+        ['close', '</style>'],
+        ['open', '<my-code>'],
+        ['text', '<b></b>'],
+        ['close', '</my-code>']
+      ]);
+    });
+
+    test('custom rcdata elements', async () => {
+      const tokens = await tokenize('<title><b></b></title><Label><b></b></label>', {
+        rcdataElements: ['LABEL']
+      });
+      assert.deepEqual(pairs(tokens), [
+        ['open', '<title>'],
+        ['open', '<b>'],
+        ['close', '</b>'],
+        ['close', '</title>'],
+        ['open', '<Label>'],
+        ['text', '<b></b>'],
+        ['close', '</label>']
+      ]);
+    });
+
+    test('custom element with a name longer than the default ones', async () => {
+      const tokens = await tokenize('<my-very-long-element><b></my-very-long-element>', {
+        rawTextElements: ['my-very-long-element']
+      });
+      assert.deepEqual(pairs(tokens), [
+        ['open', '<my-very-long-element>'],
+        ['text', '<b>'],
+        ['close', '</my-very-long-element>']
+      ]);
+    });
+  });
+
   describe('Attributes and quotes', () => {
     test('double quoted attributes', async () => {
       const tokens = await tokenize('<div class="test" id="main">content</div>');
@@ -393,7 +552,7 @@ describe('MarkupTokenizer', () => {
     });
 
     test('comment split across chunks', async () => {
-      const tokens = await tokenizeStreaming(['<!-- hel', 'lo -->']);
+      const tokens = await tokenizeStreaming(['<!-- hel', 'lo -->'], { splitComments: true });
       assert.equal(tokens.length, 3);
       assert.equal(tokens[0][0], 'open');
       assert.equal(bufferToString(tokens[0][1]), '<!--');
@@ -426,6 +585,38 @@ describe('MarkupTokenizer', () => {
       assert.equal(tokens[2][0], 'close');
       assert.equal(bufferToString(tokens[2][1]), '</div>');
     });
+
+    test('chunks ending with a less-than sign', async () => {
+      const tokens = await tokenizeStreaming(['a<', 'b>c<', ' d<', '/b><', 'i>'], { positions: true });
+      assert.deepEqual(tokens.map(token => [token[0], bufferToString(token[1]), token[2]!.start]), [
+        ['text', 'a', 0],
+        ['open', '<b>', 1],
+        ['text', 'c< d', 4],
+        ['close', '</b>', 8],
+        ['open', '<i>', 12]
+      ]);
+    });
+
+    test('markers split at any byte', async () => {
+      const documents: [string, Options][] = [
+        ['<!---->a<!-->b<!-- c -- d --><SCRIPT>x</scr </Script >y<title>&lt;/b></TITLE><p title="a>b">', {}],
+        ['<?xml version="1.0"?><a><![CDATA[ ]] ]]><b x=\'>\'/></a>', { mode: 'xml' }]
+      ];
+      for (const [input, options] of documents) {
+        const expected = (await tokenize(input, options)).map(token => bufferToString(token[1]));
+        for (let i = 1; i < input.length; i++) {
+          const tokens = await tokenizeStreaming([input.slice(0, i), input.slice(i)], options);
+          assert.deepEqual(tokens.map(token => bufferToString(token[1])), expected, `split at ${i}`);
+        }
+      }
+    });
+
+    test('tokens within a chunk are views into it', () => {
+      const input = Buffer.from('<p>hello</p>');
+      const tokens = tokenizeSync(input);
+      assert.equal(tokens[1][1].buffer, input.buffer);
+      assert.equal(tokens[1][1].byteOffset, input.byteOffset + 3);
+    });
   });
 
   describe('Performance and large documents', () => {
@@ -504,6 +695,13 @@ describe('MarkupTokenizer', () => {
 
     test('comments with text ignored', async () => {
       const tokens = await tokenize('<!-- hello -->', { ignoreText: true });
+      assert.equal(tokens.length, 1);
+      assert.equal(tokens[0][0], 'comment');
+      assert.equal(bufferToString(tokens[0][1]), '<!-- hello -->');
+    });
+
+    test('split comments with text ignored', async () => {
+      const tokens = await tokenize('<!-- hello -->', { ignoreText: true, splitComments: true });
       assert.equal(tokens.length, 2);
       assert.equal(tokens[0][0], 'open');
       assert.equal(bufferToString(tokens[0][1]), '<!--');
@@ -564,4 +762,217 @@ describe('MarkupTokenizer', () => {
       assert.equal(openTokens.length, closeTokens.length);
     });
   });
-});
\ No newline at end of file
+
+  describe('positions option', () => {
+    test('no positions by default', async () => {
+      const tokens = await tokenize('<div>hello</div>');
+      assert.equal(tokens[0].length, 2);
+    });
+
+    test('offsets, lines and columns', async () => {
+      const tokens = await tokenize('<section>\n  <a href="/hello">hello</a>\n</section>', { positions: true });
+      assert.deepEqual(tokens.map(token => token[2]), [
+        { start: 0, end: 9, line: 1, column: 1 },
+        { start: 9, end: 12, line: 1, column: 10 },
+        { start: 12, end: 29, line: 2, column: 3 },
+        { start: 29, end: 34, line: 2, column: 20 },
+        { start: 34, end: 38, line: 2, column: 25 },
+        { start: 38, end: 39, line: 2, column: 29 },
+        { start: 39, end: 49, line: 3, column: 1 }
+      ]);
+    });
+
+    test('columns count characters', async () => {
+      const tokens = await tokenize('héllo<br>', { positions: true });
+      assert.deepEqual(tokens[1][2], { start: 6, end: 10, line: 1, column: 6 });
+    });
+
+    test('comments and raw text', async () => {
+      const tokens = await tokenize('<!-- a -->\n<script>x</script>', { positions: true, splitComments: true });
+      assert.deepEqual(tokens.map(token => [token[2]!.start, token[2]!.end]), [
+        [0, 4], [4, 7], [7, 10], [10, 11], [11, 19], [19, 20], [20, 29]
+      ]);
+    });
+
+    test('positions across chunks', async () => {
+      const input = '<div class="a">\nhello <b>world</b>\n</div>';
+      const expected = await tokenize(input, { positions: true });
+      const tokens = await tokenizeStreaming(input.split(''), { positions: true });
+      assert.deepEqual(tokens.map(token => token[2]), expected.map(token => token[2]));
+      assert.deepEqual(tokens[4][2], { start: 30, end: 34, line: 2, column: 15 });
+    });
+
+    test('positions with text ignored', async () => {
+      const tokens = await tokenizeStreaming(['hello\n<di', 'v cla', 'ss="a">wor', 'ld</div>'], { positions: true, ignoreText: true });
+      assert.equal(tokens.length, 2);
+      assert.equal(bufferToString(tokens[0][1]), '<div class="a">');
+      assert.deepEqual(tokens[0][2], { start: 6, end: 21, line: 2, column: 1 });
+      assert.equal(bufferToString(tokens[1][1]), '</div>');
+      assert.deepEqual(tokens[1][2], { start: 26, end: 32, line: 2, column: 21 });
+    });
+  });
+
+  describe('XML mode', () => {
+    test('title is not raw text', async () => {
+      const tokens = await tokenize('<item><title>A <b>bold</b> title</title></item>', { mode: 'xml' });
+      assert.deepEqual(tokens.map(token => [token[0], bufferToString(token[1])]), [
+        ['open', '<item>'],
+        ['open', '<title>'],
+        ['text', 'A '],
+        ['open', '<b>'],
+        ['text', 'bold'],
+        ['close', '</b>'],
+        ['text', ' title'],
+        ['close', '</title>'],
+        ['close', '</item>']
+      ]);
+    });
+
+    test('script and style are not raw text', async () => {
+      const tokens = await tokenize('<script><x/></script>', { mode: 'xml' });
+      assert.deepEqual(tokens.map(token => token[0]), ['open', 'selfclose', 'close']);
+    });
+
+    test('self-closing tags', async () => {
+      const tokens = await tokenize('<a><b/><c x="1" /><d x=1/></a>', { mode: 'xml' });
+      assert.deepEqual(tokens.map(token => [token[0], bufferToString(token[1])]), [
+        ['open', '<a>'],
+        ['selfclose', '<b/>'],
+        ['selfclose', '<c x="1" />'],
+        ['open', '<d x=1/>'],
+        ['close', '</a>']
+      ]);
+    });
+
+    test('self-closing tags split across chunks', async () => {
+      const tokens = await tokenizeStreaming(['<a/', '><b x="/"', '>'], { mode: 'xml' });
+      assert.deepEqual(tokens.map(token => token[0]), ['selfclose', 'open']);
+    });
+
+    test('self-closing tags are open tags in html mode', async () => {
+      const tokens = await tokenize('<br/>');
+      assert.equal(tokens[0][0], 'open');
+    });
+
+    test('processing instructions end with ?>', async () => {
+      const tokens = await tokenize('<?xml-stylesheet href="a.xsl" test="a > b"?><rss/>', { mode: 'xml' });
+      assert.deepEqual(tokens.map(token => [token[0], bufferToString(token[1])]), [
+        ['pi', '<?xml-stylesheet href="a.xsl" test="a > b"?>'],
+        ['selfclose', '<rss/>']
+      ]);
+    });
+
+    test('cdata sections are opaque', async () => {
+      const tokens = await tokenizeStreaming(['<d><![CDATA[<p>', '</d>]]></d>'], { mode: 'xml' });
+      assert.deepEqual(tokens.map(token => [token[0], bufferToString(token[1])]), [
+        ['open', '<d>'],
+        ['cdata', '<![CDATA[<p></d>]]>'],
+        ['close', '</d>']
+      ]);
+    });
+
+    test('doctype and comments', async () => {
+      const tokens = await tokenize('<!DOCTYPE note><!-- <a> --><note/>', { mode: 'xml' });
+      assert.deepEqual(tokens.map(token => token[0]), ['doctype', 'comment', 'selfclose']);
+    });
+
+    test('doctype internal subset', async () => {
+      const doctype = '<!DOCTYPE note [<!ELEMENT note (#PCDATA)><!ENTITY a "<b>]"><!-- ]> \' --><?pi ]>?>]>';
+      const input = doctype + '<note/>';
+      const chunks = input.match(/.{1,3}/g)!;
+      for (const tokens of [await tokenize(input, { mode: 'xml' }), await tokenizeStreaming(chunks, { mode: 'xml' })]) {
+        assert.deepEqual(tokens.map(token => [token[0], bufferToString(token[1])]), [
+          ['doctype', doctype],
+          ['selfclose', '<note/>']
+        ]);
+      }
+      assert.deepEqual(tokenizeSync('<!DOCTYPE html [<p>]>').map(token => bufferToString(token[1])), ['<!DOCTYPE html [<p>', ']>']);
+    });
+  });
+
+  describe('decodeEntities option', () => {
+    test('text is not decoded by default', async () => {
+      const tokens = await tokenize('a &amp; b');
+      assert.equal(bufferToString(tokens[0][1]), 'a &amp; b');
+    });
+
+    test('decodes text', async () => {
+      const tokens = await tokenize('<p>Tom &amp; Jerry&nbsp;&#x27;s &copy</p>', { decodeEntities: true });
+      assert.equal(bufferToString(tokens[1][1]), 'Tom & Jerry\u00a0\'s ©');
+    });
+
+    test('references split across chunks', async () => {
+      const tokens = await tokenizeStreaming(['<p>a &am', 'p; b &#x', '27; &nbs', 'p;</p>'], { decodeEntities: true });
+      assert.equal(bufferToString(tokens[1][1]), "a & b ' \u00a0");
+    });
+
+    test('raw text is not decoded', async () => {
+      const tokens = await tokenize('<script>a &amp;&amp; b</script><style>&lt;</style>', { decodeEntities: true });
+      assert.equal(bufferToString(tokens[1][1]), 'a &amp;&amp; b');
+      assert.equal(bufferToString(tokens[4][1]), '&lt;');
+    });
+
+    test('rcdata is decoded', async () => {
+      const tokens = await tokenize('<title>a &amp; b</title><textarea>&lt;p&gt;</textarea>', { decodeEntities: true });
+      assert.equal(bufferToString(tokens[1][1]), 'a & b');
+      assert.equal(bufferToString(tokens[4][1]), '<p>');
+    });
+
+    test('comments and tags are not decoded', async () => {
+      const tokens = await tokenize('<a title="&amp;"><!-- &amp; --></a>', { decodeEntities: true });
+      assert.equal(bufferToString(tokens[0][1]), '<a title="&amp;">');
+      assert.equal(bufferToString(tokens[1][1]), '<!-- &amp; -->');
+    });
+
+    test('positions refer to the source', async () => {
+      const tokens = await tokenize('&lt;&gt;<br>', { decodeEntities: true, positions: true });
+      assert.equal(bufferToString(tokens[0][1]), '<>');
+      assert.deepEqual(tokens[0][2], { start: 0, end: 8, line: 1, column: 1 });
+      assert.deepEqual(tokens[1][2], { start: 8, end: 12, line: 1, column: 9 });
+    });
+
+    test('xml mode only decodes predefined entities', async () => {
+      const tokens = await tokenize('<a>&lt;&nbsp;&apos;</a>', { decodeEntities: true, mode: 'xml' });
+      assert.equal(bufferToString(tokens[1][1]), "<&nbsp;'");
+    });
+  });
+
+  describe('Synchronous and async iterator APIs', () => {
+    const html = '<!DOCTYPE html>\n<html><head><title>a &amp; b</title><script>if (a < b) {}</script></head>' +
+      '<body class="x"><!-- c --><p>hello <b>world</b></p><br/><textarea><p></textarea></body></html>';
+
+    test('tokenize matches the stream', async () => {
+      for (const options of [{}, { ignoreText: true }, { positions: true, decodeEntities: true }, { mode: 'xml' as const }]) {
+        assert.deepEqual(tokenizeSync(html, options), await tokenize(html, options));
+      }
+    });
+
+    test('tokenize accepts buffers and typed arrays', () => {
+      const expected = tokenizeSync('<p>a</p>');
+      assert.deepEqual(tokenizeSync(Buffer.from('<p>a</p>')), expected);
+      assert.deepEqual(tokenizeSync(new TextEncoder().encode('<p>a</p>')), expected);
+      assert.ok(Buffer.isBuffer(expected[0][1]));
+    });
+
+    test('tokens matches the stream', async () => {
+      const chunks = html.match(/.{1,7}/gs)!;
+      const result = [];
+      for await (const token of tokenIterator(Readable.from(chunks.map(chunk => Buffer.from(chunk))), { positions: true })) {
+        result.push(token);
+      }
+      assert.deepEqual(result, await tokenizeStreaming(chunks, { positions: true }));
+    });
+
+    test('tokens accepts any async iterable of bytes', async () => {
+      async function* source() {
+        yield new TextEncoder().encode('<div>he');
+        yield new TextEncoder().encode('llo</div>');
+      }
+      const result = [];
+      for await (const [type, buf] of tokenIterator(source())) {
+        result.push([type, bufferToString(buf)]);
+      }
+      assert.deepEqual(result, [['open', '<div>'], ['text', 'hello'], ['close', '</div>']]);
+    });
+  });
+});
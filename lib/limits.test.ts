@@ -0,0 +1,239 @@
+import { test, describe } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { Readable } from 'stream';
+import { MarkupTokenizer, MarkupTokenizerError, tokenize } from './index.js';
+import type { MarkupTokenizerOptions, ObjectToken, Token } from './index.js';
+import { Tokenizer } from './tokenizer.js';
+import type { LimitAction } from './limits.js';
+import { nodeBytes } from './buffers.js';
+
+const run = (chunks: string[], options?: MarkupTokenizerOptions): Promise<Token[]> =>
+  new Promise((resolve, reject) => {
+    const tokens: Token[] = [];
+    const tokenizer = new MarkupTokenizer(options);
+    tokenizer.on('data', (token: Token) => tokens.push(token));
+    tokenizer.on('end', () => resolve(tokens));
+    tokenizer.on('error', reject);
+    Readable.from(chunks.map(chunk => Buffer.from(chunk, 'utf8'))).pipe(tokenizer);
+  });
+
+// Same input in one chunk and in chunks of a few bytes
+const both = async (input: string, options: MarkupTokenizerOptions, size: number = 3): Promise<[string, string][][]> => {
+  const chunks = input.match(new RegExp(`[\\s\\S]{1,${size}}`, 'g'))!;
+  return [await run([input], options), await run(chunks, options)].map(tokens =>
+    tokens.map(([type, buf]) => [type, buf.toString()])
+  );
+};
+
+// Tokens and diagnostics of `input` written in chunks of `size` bytes, or the error thrown
+const chunked = (input: Buffer, options: MarkupTokenizerOptions, size: number): string[] => {
+  const result: string[] = [];
+  const tokenizer = new Tokenizer(options, (token) => {
+    const { type, name, raw } = token as ObjectToken;
+    result.push(`${type} ${name} ${raw.toString()}`);
+  }, nodeBytes);
+  try {
+    for (let i = 0; i < input.length; i += size) tokenizer.write(input.subarray(i, i + size));
+    tokenizer.end();
+  } catch (error) {
+    const { code, offset } = error as MarkupTokenizerError;
+    result.push(`throws ${code} ${offset}`);
+  }
+  return [...result, ...tokenizer.diagnostics.map(({ code, offset }) => `${code} ${offset}`)];
+};
+
+const isLimitError = (code: string, offset: number) => (error: MarkupTokenizerError): boolean => {
+  assert.ok(error instanceof MarkupTokenizerError);
+  assert.equal(error.code, code);
+  assert.equal(error.offset, offset);
+  return true;
+};
+
+describe('Limits', () => {
+
+  test('text error', async () => {
+    const input = '<p>' + 'a'.repeat(20) + '</p>';
+    assert.throws(() => tokenize(input, { maxTextLength: 10 }), isLimitError('text-too-long', 3));
+    await assert.rejects(run(input.match(/.{1,4}/g)!, { maxTextLength: 10 }), isLimitError('text-too-long', 3));
+    assert.equal(tokenize(input, { maxTextLength: 20 }).length, 3);
+  });
+
+  test('unterminated comment errors before the end of the input', async () => {
+    let chunks = 0;
+    const source = (async function* () {
+      yield Buffer.from('<p>a</p><!--');
+      for (;;) {
+        chunks++;
+        yield Buffer.from('x'.repeat(100));
+      }
+    })();
+    await assert.rejects(
+      new Promise((resolve, reject) => {
+        Readable.from(source)
+          .pipe(new MarkupTokenizer({ maxTextLength: 1000, encoding: 'utf-8' }))
+          .on('data', () => {})
+          .on('end', resolve)
+          .on('error', reject);
+      }),
+      isLimitError('text-too-long', 8)
+    );
+    assert.ok(chunks < 20);
+  });
+
+  test('text split', async () => {
+    const input = '<p>' + 'abcdefghij'.repeat(2) + '</p>';
+    const [whole, chunked] = await both(input, { maxTextLength: { max: 8, action: 'split' } });
+    assert.deepEqual(whole, [
+      ['open', '<p>'], ['text', 'abcdefgh'], ['text', 'ijabcdef'], ['text', 'ghij'], ['close', '</p>']
+    ]);
+    const texts = chunked.filter(([type]) => type === 'text').map(([, text]) => text);
+    assert.equal(texts.join(''), 'abcdefghij'.repeat(2));
+    assert.ok(texts.every(text => text.length <= 8));
+  });
+
+  test('split does not cut characters', async () => {
+    const [whole] = await both('ééééé', { maxTextLength: { max: 3, action: 'split' } });
+    assert.deepEqual(whole.map(([, text]) => text), ['é', 'é', 'é', 'é', 'é']);
+  });
+
+  test('text truncate', async () => {
+    const input = '<p>' + 'abcdefghij'.repeat(3) + '</p><b>';
+    for (const tokens of await both(input, { maxTextLength: { max: 8, action: 'truncate' } })) {
+      assert.deepEqual(tokens, [['open', '<p>'], ['text', 'abcdefgh'], ['close', '</p>'], ['open', '<b>']]);
+    }
+  });
+
+  test('truncated tokens keep the source positions', async () => {
+    const input = '<p>ab\ncd\nef\ngh</p>\n<b>';
+    for (const chunks of [[input], input.match(/.{1,2}/gs)!]) {
+      const tokens = await run(chunks, { positions: true, maxTextLength: { max: 4, action: 'truncate' } });
+      assert.deepEqual(tokens.map(token => [token[1].toString(), token[2]]), [
+        ['<p>', { start: 0, end: 3, line: 1, column: 1 }],
+        ['ab\nc', { start: 3, end: 14, line: 1, column: 4 }],
+        ['</p>', { start: 14, end: 18, line: 4, column: 3 }],
+        ['\n', { start: 18, end: 19, line: 4, column: 7 }],
+        ['<b>', { start: 19, end: 22, line: 5, column: 1 }]
+      ]);
+    }
+  });
+
+  test('comment truncate and split', async () => {
+    const input = '<!--' + 'x'.repeat(30) + '-->a';
+    for (const tokens of await both(input, { maxTextLength: { max: 10, action: 'truncate' } })) {
+      assert.deepEqual(tokens, [['comment', '<!--xxx-->'], ['text', 'a']]);
+    }
+    for (const tokens of await both(input, { maxTextLength: { max: 10, action: 'split' } })) {
+      const comments = tokens.filter(([type]) => type === 'comment').map(([, text]) => text);
+      assert.equal(comments.join(''), '<!--' + 'x'.repeat(30) + '-->');
+      assert.ok(comments.every(comment => comment.length <= 10));
+      assert.deepEqual(tokens[tokens.length - 1], ['text', 'a']);
+    }
+  });
+
+  test('raw text truncate', async () => {
+    const input = '<script>' + 'y'.repeat(30) + '</script><p>';
+    for (const tokens of await both(input, { maxTextLength: { max: 5, action: 'truncate' } }, 4)) {
+      assert.deepEqual(tokens, [['open', '<script>'], ['text', 'yyyyy'], ['close', '</script>'], ['open', '<p>']]);
+    }
+  });
+
+  test('tag error', async () => {
+    const input = 'a<div class="' + 'c'.repeat(40) + '">';
+    assert.throws(() => tokenize(input, { maxTagLength: 16 }), isLimitError('tag-too-long', 1));
+    await assert.rejects(run(input.match(/.{1,5}/g)!, { maxTagLength: 16 }), isLimitError('tag-too-long', 1));
+  });
+
+  test('tag truncate', async () => {
+    const input = '<div class="' + 'c'.repeat(40) + '">x</div>';
+    for (const tokens of await both(input, { maxTagLength: { max: 16, action: 'truncate' } })) {
+      assert.deepEqual(tokens, [['open', '<div class="ccc>'], ['text', 'x'], ['close', '</div>']]);
+    }
+    const xml = '<a b="' + 'c'.repeat(40) + '"/>';
+    for (const tokens of await both(xml, { mode: 'xml', maxTagLength: { max: 10, action: 'truncate' } })) {
+      assert.deepEqual(tokens, [['selfclose', '<a b="cc/>']]);
+    }
+  });
+
+  test('tag split turns the tag into text', async () => {
+    const input = '<div class="' + 'c'.repeat(40) + '">x</div>';
+    for (const tokens of await both(input, { maxTagLength: { max: 16, action: 'split' } })) {
+      const texts = tokens.slice(0, -1);
+      assert.ok(texts.every(([type, text]) => type === 'text' && text.length <= 16));
+      assert.equal(texts.map(([, text]) => text).join(''), '<div class="' + 'c'.repeat(40) + '">x');
+      assert.deepEqual(tokens[tokens.length - 1], ['close', '</div>']);
+    }
+  });
+
+  test('tags are classified whatever the chunks', () => {
+    const inputs = [
+      '<!DOCTYPE html><p>',
+      '<!-- comment -->x',
+      '<![CDATA[ x ]]>y',
+      '<?php echo 1 ?>z',
+      '<script>a<b></script><p>',
+      '<SCRIPT type=module>a<b</script>',
+      '<textarea> <p>&amp;</textarea>',
+      '<pre>\n  x  </pre>  y',
+      '</scripts></>'
+    ].map(input => Buffer.from(input));
+    const actions: LimitAction[] = ['error', 'truncate', 'split'];
+    for (const options of [{}, { spec: true }, { mode: 'xml' as const }]) {
+      for (const action of actions) {
+        for (const max of [1, 2, 3, 4, 6, 9]) {
+          for (const input of inputs) {
+            const limits = {
+              ...options,
+              objectTokens: { attributes: false },
+              whitespace: 'collapse' as const,
+              maxTagLength: { max, action }
+            };
+            const expected = chunked(input, limits, input.length);
+            for (let size = 1; size < input.length; size++) {
+              assert.deepEqual(chunked(input, limits, size), expected, `${input} ${action} ${max} in chunks of ${size}`);
+            }
+          }
+        }
+      }
+    }
+  });
+
+  test('attribute limit', async () => {
+    const input = '<a a=1 b c="3" d>x</a>';
+    assert.throws(() => tokenize(input, { maxAttributes: 2 }), isLimitError('too-many-attributes', 9));
+    for (const tokens of await both(input, { maxAttributes: { max: 2, action: 'truncate' } })) {
+      assert.deepEqual(tokens, [['open', '<a a=1 b>'], ['text', 'x'], ['close', '</a>']]);
+    }
+    for (const tokens of await both(input, { maxAttributes: { max: 2, action: 'split' } }, 50)) {
+      assert.deepEqual(tokens, [['text', '<a a=1 b c="3" d>'], ['text', 'x'], ['close', '</a>']]);
+    }
+    assert.equal(tokenize(input, { maxAttributes: 4 }).length, 3);
+    const xml = '<x a="1" b="2"/>';
+    assert.deepEqual(
+      tokenize(xml, { mode: 'xml', maxAttributes: { max: 1, action: 'truncate' } }).map(([type, buf]) => [type, buf.toString()]),
+      [['selfclose', '<x a="1"/>']]
+    );
+  });
+
+  test('tags split past the attribute limit are bounded', async () => {
+    const tag = `<a ${Array.from({ length: 40 }, (_, i) => `a${i}="${i}"`).join(' ')}>`;
+    const input = `${tag}x</a>`;
+    const cases: [MarkupTokenizerOptions, number][] = [
+      [{ maxAttributes: { max: 2, action: 'split' }, maxTextLength: { max: 16, action: 'split' } }, 16],
+      [{ maxAttributes: { max: 2, action: 'split' }, maxTagLength: 32 }, 32]
+    ];
+    for (const [options, max] of cases) {
+      for (const tokens of await both(input, options, 7)) {
+        const pieces = tokens.slice(0, -2);
+        assert.ok(pieces.every(([type, text]) => type === 'text' && text.length <= max));
+        assert.equal(pieces.map(([, text]) => text).join(''), tag);
+        assert.deepEqual(tokens.slice(-2), [['text', 'x'], ['close', '</a>']]);
+      }
+    }
+  });
+
+  test('invalid limits', () => {
+    assert.throws(() => tokenize('', { maxTagLength: 0 }), RangeError);
+    assert.throws(() => tokenize('', { maxTextLength: { max: 1.5 } }), RangeError);
+  });
+
+});
@@ -0,0 +1,69 @@
+// Size limits protecting the tokenizer against hostile input
+import { LF } from "./chars.js";
+
+export type LimitAction = "error" | "truncate" | "split";
+
+export interface Limit {
+  max: number;
+  // What happens past the limit, "error" by default
+  action?: LimitAction;
+}
+
+export function resolveLimit(
+  limit: number | Limit | undefined,
+  name: string
+): Required<Limit> | null {
+  if (limit === undefined) return null;
+  const { max, action = "error" } =
+    typeof limit === "number" ? { max: limit } : limit;
+  if (!Number.isInteger(max) || max < 1) {
+    throw new RangeError(`${name} must be a positive integer`);
+  }
+  return { max, action };
+}
+
+// Size and line/column extent of bytes dropped from a token
+export interface Span {
+  bytes: number;
+  lines: number;
+  // Characters after the last line feed, or in total without line feeds
+  column: number;
+}
+
+export function measure(
+  buf: Uint8Array,
+  span: Span = { bytes: 0, lines: 0, column: 0 }
+): Span {
+  span.bytes += buf.length;
+  for (let j = 0; j < buf.length; j++) {
+    const c = buf[j];
+    if (c === LF) {
+      span.lines++;
+      span.column = 0;
+    } else if ((c & 0xc0) !== 0x80) span.column++;
+  }
+  return span;
+}
+
+export function join(a: Span, b: Span): Span {
+  return {
+    bytes: a.bytes + b.bytes,
+    lines: a.lines + b.lines,
+    column: b.lines > 0 ? b.column : a.column + b.column,
+  };
+}
+
+/**
+ * Move a cut back so that it does not split a UTF-8 character, unless that
+ * would leave nothing after `start`.
+ */
+export function charBoundary(
+  buf: Uint8Array,
+  start: number,
+  index: number
+): number {
+  if (index >= buf.length) return buf.length;
+  let j = index;
+  while (j > start && (buf[j] & 0xc0) === 0x80) j--;
+  return j > start ? j : index;
+}
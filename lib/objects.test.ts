@@ -0,0 +1,103 @@
+import { test, describe } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { Readable } from 'stream';
+import { MarkupTokenizer, tokenize, tokens } from './index.js';
+import { tokenize as tokenizeWeb } from './web.js';
+import type { ObjectToken } from './index.js';
+
+const summary = (list: ObjectToken<Uint8Array>[]) =>
+  list.map(({ type, name, selfClosing, text }) => ({ type, name, selfClosing, text }));
+
+describe('objectTokens option', () => {
+
+  test('tags, text and comments', () => {
+    const result = tokenize('<p class="a">Hi<br/></P><!-- c -->', { objectTokens: { text: true } });
+    assert.deepEqual(summary(result), [
+      { type: 'open', name: 'p', selfClosing: false, text: undefined },
+      { type: 'text', name: null, selfClosing: false, text: 'Hi' },
+      { type: 'open', name: 'br', selfClosing: true, text: undefined },
+      { type: 'close', name: 'p', selfClosing: false, text: undefined },
+      { type: 'comment', name: null, selfClosing: false, text: ' c ' }
+    ]);
+    assert.equal(result[0].raw.toString(), '<p class="a">');
+    assert.ok(Buffer.isBuffer(result[0].raw));
+    assert.equal(result[0].attributes, undefined);
+    assert.equal(result[1].text, 'Hi');
+  });
+
+  test('tuples stay the default', () => {
+    assert.deepEqual(tokenize('<a>').map(([type, buf]) => [type, buf.toString()]), [['open', '<a>']]);
+  });
+
+  test('names are lower-cased in HTML', () => {
+    const result = tokenize('<div></div><DIV>', { objectTokens: true });
+    assert.deepEqual(result.map(({ name }) => name), ['div', 'div', 'div']);
+  });
+
+  test('attributes', () => {
+    const [token] = tokenize('<a HREF="/x?a=1&amp;b=2" hidden>', { objectTokens: { attributes: true }, decodeEntities: true });
+    assert.deepEqual(token.attributes!.map(({ name, value }) => [name, value]), [['href', '/x?a=1&b=2'], ['hidden', null]]);
+    assert.deepEqual(tokenize('</a>', { objectTokens: { attributes: true } })[0].attributes, undefined);
+  });
+
+  test('decoded text keeps the source bytes', () => {
+    const [token] = tokenize('a &amp; b', { objectTokens: { text: true }, decodeEntities: true });
+    assert.equal(token.text, 'a & b');
+    assert.equal(token.raw.toString(), 'a &amp; b');
+  });
+
+  test('unquoted values ending with a slash', () => {
+    const [token] = tokenize('<a href=/x/>', { objectTokens: true });
+    assert.equal(token.selfClosing, false);
+  });
+
+  test('xml', () => {
+    const result = tokenize('<?xml version="1.0"?><Root><Item/><![CDATA[x < y]]></Root>', { mode: 'xml', objectTokens: { text: true } });
+    assert.deepEqual(summary(result), [
+      { type: 'pi', name: null, selfClosing: false, text: 'xml version="1.0"' },
+      { type: 'open', name: 'Root', selfClosing: false, text: undefined },
+      { type: 'selfclose', name: 'Item', selfClosing: true, text: undefined },
+      { type: 'cdata', name: null, selfClosing: false, text: 'x < y' },
+      { type: 'close', name: 'Root', selfClosing: false, text: undefined }
+    ]);
+  });
+
+  test('split comments and raw text', () => {
+    const result = tokenize('<script>a</script><!--b-->', { objectTokens: { text: true }, splitComments: true });
+    assert.deepEqual(summary(result), [
+      { type: 'open', name: 'script', selfClosing: false, text: undefined },
+      { type: 'text', name: null, selfClosing: false, text: 'a' },
+      { type: 'close', name: 'script', selfClosing: false, text: undefined },
+      { type: 'open', name: null, selfClosing: false, text: undefined },
+      { type: 'text', name: null, selfClosing: false, text: 'b' },
+      { type: 'close', name: null, selfClosing: false, text: undefined }
+    ]);
+  });
+
+  test('bogus comments in spec mode', () => {
+    const result = tokenize('<!x></ y><?z>', { spec: true, objectTokens: { text: true } });
+    assert.deepEqual(result.map(({ text }) => text), ['x', ' y', '?z']);
+  });
+
+  test('names and positions across chunks', async () => {
+    const result: ObjectToken[] = [];
+    const stream = Readable.from(['<', 'sec', 'tion a', '=1>', 'x</', 'sect', 'ion>']);
+    for await (const token of tokens(stream, { objectTokens: true, positions: true })) result.push(token);
+    assert.deepEqual(result.map(({ name, position }) => [name, position!.start]), [['section', 0], [null, 13], ['section', 14]]);
+  });
+
+  test('stream and web entry points', async () => {
+    const result = await new Promise<ObjectToken[]>((resolve, reject) => {
+      const list: ObjectToken[] = [];
+      Readable.from([Buffer.from('<b>x</b>')])
+        .pipe(new MarkupTokenizer({ objectTokens: true }))
+        .on('data', (token: ObjectToken) => list.push(token))
+        .on('end', () => resolve(list))
+        .on('error', reject);
+    });
+    assert.deepEqual(result.map(({ type, name }) => [type, name]), [['open', 'b'], ['text', null], ['close', 'b']]);
+    const web = tokenizeWeb('<b>x</b>', { objectTokens: true });
+    assert.deepEqual(web.map(({ type, name }) => [type, name]), [['open', 'b'], ['text', null], ['close', 'b']]);
+  });
+
+});
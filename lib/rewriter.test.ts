@@ -0,0 +1,161 @@
+import { test, describe } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { Readable } from 'stream';
+import { MarkupRewriter, RewriterElement } from './index.js';
+import type { MarkupRewriterOptions } from './index.js';
+
+const rewrite = (chunks: string | string[], options?: MarkupRewriterOptions): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const output: Buffer[] = [];
+    const rewriter = new MarkupRewriter(options);
+    rewriter.on('data', (chunk: Buffer) => output.push(chunk));
+    rewriter.on('end', () => resolve(Buffer.concat(output).toString()));
+    rewriter.on('error', reject);
+    const input = typeof chunks === 'string' ? [chunks] : chunks;
+    Readable.from(input.map(chunk => Buffer.from(chunk, 'utf8'))).pipe(rewriter);
+  });
+
+describe('MarkupRewriter', () => {
+
+  test('untouched input comes through byte-for-byte', async () => {
+    const html = '<!DOCTYPE html>\n<HTML><p class=a  id = "b">a &amp; b<br/></P></span><!-- c --><script>if (a < b) {}</script>\r\n';
+    assert.equal(await rewrite(html), html);
+    assert.equal(await rewrite(html, { handlers: { div: () => {} } }), html);
+    assert.equal(await rewrite(html.match(/[\s\S]{1,3}/g)!, { handlers: { p: () => {} } }), html);
+  });
+
+  test('truncated input comes through byte-for-byte', async () => {
+    const html = '<p class="a">x</p><a href="x"><!-- c --><![CDATA[d]]><?e?><script>f</script><b';
+    for (let end = 0; end <= html.length; end++) {
+      const input = html.slice(0, end);
+      assert.equal(await rewrite(input, { handlers: { p: () => {} } }), input);
+      assert.equal(await rewrite(input.match(/[\s\S]{1,3}/g) ?? [], { handlers: { p: () => {} } }), input);
+    }
+    assert.equal(await rewrite('<p>x</p><a href="x', { handlers: { p: (element) => element.append('!') } }), '<p>x!</p><a href="x');
+    assert.equal(await rewrite('<div>x<a href="x', { handlers: { div: (element) => element.remove() } }), '');
+  });
+
+  test('set and remove attributes', async () => {
+    assert.equal(
+      await rewrite('<a  href=\'/x\' target=_blank class="c">x</a><a>y</a>', {
+        handlers: {
+          'a[href]': (element) => {
+            element.setAttribute('href', 'https://example.com' + element.getAttribute('href'));
+            element.removeAttribute('target');
+            element.setAttribute('rel', 'a "b"');
+          }
+        }
+      }),
+      '<a  href="https://example.com/x" class="c" rel="a &quot;b&quot;">x</a><a>y</a>'
+    );
+  });
+
+  test('attributes are inserted before self-closing slash', async () => {
+    assert.equal(
+      await rewrite('<img src="a.png"/><br>', {
+        handlers: { img: (element) => element.setAttribute('alt', '') }
+      }),
+      '<img src="a.png" alt=""/><br>'
+    );
+  });
+
+  test('element attributes reflect changes', async () => {
+    const seen: [string, string][][] = [];
+    await rewrite('<div ID="a" data-x="1&amp;2"></div>', {
+      handlers: {
+        div: (element) => {
+          element.setAttribute('class', 'b').removeAttribute('id');
+          seen.push([...element.attributes]);
+          assert.equal(element.hasAttribute('Data-X'), true);
+        }
+      }
+    });
+    assert.deepEqual(seen, [[['data-x', '1&2'], ['class', 'b']]]);
+  });
+
+  test('insert content around and inside elements', async () => {
+    assert.equal(
+      await rewrite('<html><head><title>t</title></head><body><p>a</p></body></html>', {
+        handlers: {
+          head: (element) => element.append('<script src="x.js"></script>', { html: true }),
+          p: (element) => {
+            element.before('<hr>', { html: true }).after('<b>').prepend('>').append('!');
+          }
+        }
+      }),
+      '<html><head><title>t</title><script src="x.js"></script></head><body><hr><p>&gt;a!</p>&lt;b&gt;</body></html>'
+    );
+  });
+
+  test('implied end tags', async () => {
+    assert.equal(
+      await rewrite('<ul><li>a<li>b</ul>', {
+        handlers: { li: (element) => element.append('.') }
+      }),
+      '<ul><li>a.<li>b.</ul>'
+    );
+  });
+
+  test('remove and replace elements', async () => {
+    const handlers = {
+      '.ad': (element: RewriterElement) => element.remove(),
+      'b': (element: RewriterElement) => element.replace('<strong>!</strong>', { html: true }),
+      'span': (element: RewriterElement) => element.removeAndKeepContent(),
+      'em': (element: RewriterElement) => element.setInnerContent('1 < 2')
+    };
+    assert.equal(
+      await rewrite('<section>a<div class="ad"><p>x</p><b>y</b></div><b>c</b><span><i>d</i></span><em><i>e</i></em></section>', { handlers }),
+      '<section>a<strong>!</strong><i>d</i><em>1 &lt; 2</em></section>'
+    );
+  });
+
+  test('text and comment handlers', async () => {
+    assert.equal(
+      await rewrite('<p>hello <b>world</b><!-- x --></p><div>hello</div>', {
+        handlers: {
+          p: {
+            text: (text) => text.replace(text.text.toUpperCase()),
+            comments: (comment) => comment.remove()
+          }
+        }
+      }),
+      '<p>HELLO <b>WORLD</b></p><div>hello</div>'
+    );
+  });
+
+  test('text handlers get decoded text', async () => {
+    const seen: string[][] = [];
+    assert.equal(
+      await rewrite('<p>a &amp; b</p><div>&lt;</div><title>&amp;</title><script>&amp;</script>', {
+        handlers: {
+          p: { text: (text) => text.replace(text.text.toUpperCase()) },
+          'div, title, script': {
+            text: (text) => {
+              seen.push([text.text, text.source]);
+            }
+          }
+        }
+      }),
+      '<p>A &amp; B</p><div>&lt;</div><title>&amp;</title><script>&amp;</script>'
+    );
+    assert.deepEqual(seen, [['<', '&lt;'], ['&', '&amp;'], ['&amp;', '&amp;']]);
+  });
+
+  test('stray end tags are kept', async () => {
+    assert.equal(
+      await rewrite('</b><p>a</p>', { handlers: { p: (element) => element.setAttribute('x', '1') } }),
+      '</b><p x="1">a</p>'
+    );
+  });
+
+  test('xml mode', async () => {
+    assert.equal(
+      await rewrite('<Item Id="1"/><item/>', {
+        mode: 'xml',
+        handlers: { Item: (element) => element.setAttribute('Id', '2') }
+      }),
+      '<Item Id="2"/><item/>'
+    );
+  });
+
+});
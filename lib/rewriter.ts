@@ -0,0 +1,481 @@
+import { Transform, TransformCallback } from "node:stream";
+import { Tokenizer, RAW_TEXT_ELEMENTS, RCDATA_ELEMENTS } from "./tokenizer.js";
+import { decodeEntities } from "./entities.js";
+import { nodeBytes, toBuffer } from "./buffers.js";
+import { GT, isWhitespace } from "./chars.js";
+import { parseTag } from "./tag.js";
+import { ElementStack } from "./tree.js";
+import {
+  parseSelector,
+  matchSelector,
+  SelectorElement,
+} from "./select.js";
+import type { ComplexSelector } from "./select.js";
+import type { MarkupTokenizerOptions } from "./tokenizer.js";
+import type { Token } from "./types.js";
+
+export interface ContentOptions {
+  // Insert the content as markup instead of escaping it as text
+  html?: boolean;
+}
+
+export interface RewriterHandlers {
+  element?(element: RewriterElement): void;
+  // Text and comments inside matching elements
+  text?(text: RewriterNode): void;
+  comments?(comment: RewriterNode): void;
+}
+
+export interface MarkupRewriterOptions
+  extends Pick<
+    MarkupTokenizerOptions,
+    "mode" | "rawTextElements" | "rcdataElements"
+  > {
+  // Handlers keyed by tag name or selector
+  handlers?: Record<
+    string,
+    RewriterHandlers | ((element: RewriterElement) => void)
+  >;
+}
+
+const escapeText = (text: string): string =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+const escapeAttribute = (value: string): string =>
+  value.replace(/&/g, "&amp;").replace(/"/g, "&quot;");
+
+const content = (text: string, options: ContentOptions = {}): string =>
+  options.html ? text : escapeText(text);
+
+interface ElementState {
+  before: string[];
+  prepend: string[];
+  // Replacement for the content of the element, null to keep it
+  inner: string | null;
+  append: string[];
+  after: string[];
+  // Whole element removed, or only its start and end tags
+  removed: "element" | "tags" | null;
+  // Attribute changes keyed by name, null values for removals
+  attributes: Map<string, { name: string; value: string | null }>;
+}
+
+/**
+ * Element handed to the `element` handlers. Changes are applied when the
+ * element is written out.
+ */
+export class RewriterElement {
+  private xml: boolean;
+
+  constructor(
+    readonly name: string,
+    private source: SelectorElement,
+    private state: ElementState,
+    mode: "html" | "xml" = "html"
+  ) {
+    this.xml = mode === "xml";
+  }
+
+  /**
+   * Attribute values after the changes made so far.
+   */
+  get attributes(): Map<string, string> {
+    const attributes = new Map(this.source.attributes);
+    for (const [key, { value }] of this.state.attributes) {
+      if (value === null) attributes.delete(key);
+      else attributes.set(key, value);
+    }
+    return attributes;
+  }
+
+  get removed(): boolean {
+    return this.state.removed === "element";
+  }
+
+  getAttribute(name: string): string | null {
+    return this.attributes.get(this._key(name)) ?? null;
+  }
+
+  hasAttribute(name: string): boolean {
+    return this.attributes.has(this._key(name));
+  }
+
+  setAttribute(name: string, value: string): this {
+    this.state.attributes.set(this._key(name), { name, value });
+    return this;
+  }
+
+  removeAttribute(name: string): this {
+    this.state.attributes.set(this._key(name), { name, value: null });
+    return this;
+  }
+
+  before(text: string, options?: ContentOptions): this {
+    this.state.before.push(content(text, options));
+    return this;
+  }
+
+  after(text: string, options?: ContentOptions): this {
+    this.state.after.push(content(text, options));
+    return this;
+  }
+
+  prepend(text: string, options?: ContentOptions): this {
+    this.state.prepend.push(content(text, options));
+    return this;
+  }
+
+  append(text: string, options?: ContentOptions): this {
+    this.state.append.push(content(text, options));
+    return this;
+  }
+
+  setInnerContent(text: string, options?: ContentOptions): this {
+    this.state.prepend = [];
+    this.state.append = [];
+    this.state.inner = content(text, options);
+    return this;
+  }
+
+  replace(text: string, options?: ContentOptions): this {
+    this.before(text, options);
+    return this.remove();
+  }
+
+  remove(): this {
+    this.state.removed = "element";
+    return this;
+  }
+
+  removeAndKeepContent(): this {
+    this.state.removed = "tags";
+    return this;
+  }
+
+  private _key(name: string): string {
+    return this.xml ? name : name.toLowerCase();
+  }
+}
+
+/**
+ * Text or comment handed to the `text` and `comments` handlers.
+ */
+export class RewriterNode {
+  private _before: string[] = [];
+  private _after: string[] = [];
+  private _replacement: string | null = null;
+
+  constructor(
+    readonly type: "text" | "comment",
+    // Text with character references decoded, the whole comment for comments
+    readonly text: string,
+    // Source text, character references included
+    readonly source: string = text
+  ) {}
+
+  get removed(): boolean {
+    return this._replacement !== null;
+  }
+
+  before(text: string, options?: ContentOptions): this {
+    this._before.push(content(text, options));
+    return this;
+  }
+
+  after(text: string, options?: ContentOptions): this {
+    this._after.push(content(text, options));
+    return this;
+  }
+
+  replace(text: string, options?: ContentOptions): this {
+    this._replacement = content(text, options);
+    return this;
+  }
+
+  remove(): this {
+    this._replacement = "";
+    return this;
+  }
+
+  toString(): string {
+    return (
+      this._before.join("") +
+      (this._replacement ?? this.source) +
+      this._after.join("")
+    );
+  }
+}
+
+// Apply attribute changes to a start tag, keeping the other bytes untouched
+function rewriteTag(
+  buf: Buffer,
+  changes: ElementState["attributes"],
+  mode: "html" | "xml"
+): Buffer {
+  const tag = parseTag(buf, { mode });
+  const parts: Buffer[] = [];
+  const done = new Set<string>();
+  let pos = 0;
+
+  for (const attribute of tag.attributes) {
+    const change = changes.get(attribute.name);
+    // Later duplicates are ignored by browsers, leave them as they are
+    if (!change || done.has(attribute.name)) continue;
+    done.add(attribute.name);
+    if (change.value === null) {
+      let start = attribute.start;
+      while (start > pos && isWhitespace(buf[start - 1])) start--;
+      parts.push(buf.subarray(pos, start));
+    } else {
+      parts.push(buf.subarray(pos, attribute.start));
+      parts.push(
+        Buffer.from(`${change.name}="${escapeAttribute(change.value)}"`)
+      );
+    }
+    pos = attribute.end;
+  }
+
+  let insert = buf[buf.length - 1] === GT ? buf.length - 1 : buf.length;
+  if (tag.selfClosing) insert--;
+  parts.push(buf.subarray(pos, insert));
+  for (const [key, change] of changes) {
+    if (change.value !== null && !done.has(key)) {
+      parts.push(
+        Buffer.from(` ${change.name}="${escapeAttribute(change.value)}"`)
+      );
+    }
+  }
+  parts.push(buf.subarray(insert));
+  return Buffer.concat(parts);
+}
+
+interface Rule {
+  selectors: ComplexSelector[];
+  handlers: RewriterHandlers;
+}
+
+interface Entry {
+  rules: Rule[];
+  state: ElementState | null;
+}
+
+/**
+ * Rewrite markup on the fly: bytes in, bytes out. Elements matching the
+ * handler selectors can be edited, everything else is written out
+ * byte-for-byte.
+ */
+export class MarkupRewriter extends Transform {
+  private tokenizer: Tokenizer;
+  private stack: ElementStack;
+  private mode: "html" | "xml";
+  private rules: Rule[];
+  // Elements whose text is not decoded (script, style...)
+  private rawText: Set<string> = new Set();
+  private elements: SelectorElement[] = [];
+  private entries: Entry[] = [];
+  private output: Buffer[] = [];
+  // Depth of the element whose content is dropped, -1 when none
+  private skipDepth: number = -1;
+  // Whether the last close token ended an open element
+  private ended: boolean = false;
+  // Input chunks holding the bytes not yet in a token, which the tokenizer
+  // drops when the input ends inside a tag or a comment
+  private input: Buffer[] = [];
+  private inputLength: number = 0;
+  private pending: number = 0;
+
+  constructor(options: MarkupRewriterOptions = {}) {
+    super();
+    this.mode = options.mode ?? "html";
+    if (this.mode === "html") {
+      const rcdata = options.rcdataElements ?? RCDATA_ELEMENTS;
+      for (const name of options.rawTextElements ?? RAW_TEXT_ELEMENTS) {
+        this.rawText.add(name.toLowerCase());
+      }
+      for (const name of rcdata) this.rawText.delete(name.toLowerCase());
+    }
+    this.rules = Object.entries(options.handlers ?? {}).map(
+      ([selector, handlers]) => ({
+        selectors: parseSelector(selector, options),
+        handlers:
+          typeof handlers === "function" ? { element: handlers } : handlers,
+      })
+    );
+    this.stack = new ElementStack(
+      options,
+      (name, token) => this._enter(name, token),
+      (name, token) => this._leave(token)
+    );
+    this.tokenizer = new Tokenizer(
+      {
+        mode: options.mode,
+        rawTextElements: options.rawTextElements,
+        rcdataElements: options.rcdataElements,
+        // Bytes are written back as they are, whatever their encoding
+        encoding: "utf-8",
+      },
+      (token) => this._token(token as Token),
+      nodeBytes
+    );
+  }
+
+  _transform = (
+    chunk: string | Buffer,
+    enc: BufferEncoding,
+    next: TransformCallback
+  ): void => {
+    const buf = toBuffer(chunk);
+    this.input.push(buf);
+    this.inputLength += buf.length;
+    this.pending += buf.length;
+    this.tokenizer.write(buf);
+    while (
+      this.input.length > 0 &&
+      this.inputLength - this.input[0].length >= this.pending
+    ) {
+      this.inputLength -= (this.input.shift() as Buffer).length;
+    }
+    this._drain();
+    next();
+  };
+
+  _flush = (next: TransformCallback): void => {
+    this.tokenizer.end();
+    // Untouched bytes are written out, even those of an unterminated tag
+    if (this.pending > 0 && this.skipDepth === -1) {
+      const input = Buffer.concat(this.input);
+      this._output(input.subarray(input.length - this.pending));
+    }
+    this.stack.end();
+    this._drain();
+    next();
+  };
+
+  private _drain(): void {
+    if (this.output.length > 0) {
+      this.push(Buffer.concat(this.output));
+      this.output = [];
+    }
+  }
+
+  private _output(bytes: Buffer | string): void {
+    if (bytes.length > 0) {
+      this.output.push(typeof bytes === "string" ? Buffer.from(bytes) : bytes);
+    }
+  }
+
+  private _token(token: Token): void {
+    this.pending -= token[1].length;
+    this.ended = false;
+    if (this.stack.write(token)) {
+      // Stray end tags are written out as they are
+      if (token[0] === "close" && !this.ended && this.skipDepth === -1) {
+        this._output(token[1]);
+      }
+      return;
+    }
+    if (this.skipDepth !== -1) return;
+
+    const type = token[0];
+    if (type === "text" || type === "comment") {
+      const handlers = new Set<(node: RewriterNode) => void>();
+      for (const entry of this.entries) {
+        for (const rule of entry.rules) {
+          const handler =
+            type === "text" ? rule.handlers.text : rule.handlers.comments;
+          if (handler) handlers.add(handler);
+        }
+      }
+      if (handlers.size > 0) {
+        const node = this._node(type, token[1].toString());
+        for (const handler of handlers) handler(node);
+        this._output(node.toString());
+        return;
+      }
+    }
+    this._output(token[1]);
+  }
+
+  private _node(type: "text" | "comment", source: string): RewriterNode {
+    const parent = this.elements[this.elements.length - 1];
+    if (type === "comment" || (parent && this.rawText.has(parent.name))) {
+      return new RewriterNode(type, source);
+    }
+    return new RewriterNode(type, decodeEntities(source, { mode: this.mode }), source);
+  }
+
+  private _enter(name: string, token: Token): void {
+    const element = new SelectorElement(name, token, this.mode);
+    this.elements.push(element);
+    const entry: Entry = { rules: [], state: null };
+    this.entries.push(entry);
+    if (this.skipDepth !== -1) return;
+
+    entry.rules = this.rules.filter((rule) =>
+      matchSelector(rule.selectors, this.elements)
+    );
+    if (entry.rules.length === 0) {
+      this._output(token[1]);
+      return;
+    }
+
+    const state: ElementState = {
+      before: [],
+      prepend: [],
+      inner: null,
+      append: [],
+      after: [],
+      removed: null,
+      attributes: new Map(),
+    };
+    entry.state = state;
+    const rewriterElement = new RewriterElement(
+      name,
+      element,
+      state,
+      this.mode
+    );
+    for (const rule of entry.rules) {
+      rule.handlers.element?.(rewriterElement);
+    }
+
+    this._output(state.before.join(""));
+    if (state.removed === "element") {
+      this.skipDepth = this.entries.length;
+      return;
+    }
+    if (state.removed === null) {
+      this._output(
+        state.attributes.size > 0
+          ? rewriteTag(token[1], state.attributes, this.mode)
+          : token[1]
+      );
+    }
+    this._output(state.prepend.join(""));
+    if (state.inner !== null) {
+      this._output(state.inner);
+      this.skipDepth = this.entries.length;
+    }
+  }
+
+  private _leave(token: Token | null): void {
+    if (token) this.ended = true;
+    const depth = this.entries.length;
+    const { state } = this.entries.pop() as Entry;
+    this.elements.pop();
+    if (this.skipDepth !== -1) {
+      if (depth > this.skipDepth) return;
+      this.skipDepth = -1;
+    }
+
+    if (state === null) {
+      if (token) this._output(token[1]);
+      return;
+    }
+    if (state.removed !== "element") {
+      this._output(state.append.join(""));
+      if (token && state.removed === null) this._output(token[1]);
+    }
+    this._output(state.after.join(""));
+  }
+}
@@ -0,0 +1,131 @@
+import { test, describe } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { Readable } from 'stream';
+import { MarkupTokenizer, SelectorFilter, parseSelector } from './index.js';
+import type { SelectorFilterOptions, Token } from './index.js';
+
+const select = (input: string, selector: string, options?: SelectorFilterOptions): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const tokens: Token[] = [];
+    const filter = new SelectorFilter(selector, options);
+    filter.on('data', (token) => tokens.push(token));
+    filter.on('end', () => resolve(tokens.map(token => token[1].toString()).join('')));
+    filter.on('error', reject);
+    Readable.from([Buffer.from(input, 'utf8')])
+      .pipe(new MarkupTokenizer({ mode: options?.mode }))
+      .pipe(filter);
+  });
+
+describe('parseSelector', () => {
+
+  test('compound and complex selectors', () => {
+    assert.deepEqual(parseSelector('DIV#main.a > p, *[href]'), [
+      {
+        compounds: [
+          {
+            name: 'div',
+            attributes: [
+              { name: 'id', operator: '=', value: 'main' },
+              { name: 'class', operator: '~=', value: 'a' }
+            ],
+            not: []
+          },
+          { name: 'p', attributes: [], not: [] }
+        ],
+        combinators: ['>']
+      },
+      {
+        compounds: [{ name: null, attributes: [{ name: 'href', operator: '', value: '' }], not: [] }],
+        combinators: []
+      }
+    ]);
+  });
+
+  test('attribute operators and quoted values', () => {
+    const [selector] = parseSelector('a[href^="https:"][rel~=nofollow][lang|=en][title*=\'x y\'][src$=".png"]');
+    assert.deepEqual(selector.compounds[0].attributes.map(attr => [attr.operator, attr.value]), [
+      ['^=', 'https:'],
+      ['~=', 'nofollow'],
+      ['|=', 'en'],
+      ['*=', 'x y'],
+      ['$=', '.png']
+    ]);
+  });
+
+  test('xml names keep their case', () => {
+    const [selector] = parseSelector('soap\\:Body', { mode: 'xml' });
+    assert.equal(selector.compounds[0].name, 'soap:Body');
+  });
+
+  test('invalid selectors throw', () => {
+    for (const selector of ['', 'div >', 'a,', '[href', ':hover', 'div:not(p', 'a[x="y]', '#']) {
+      assert.throws(() => parseSelector(selector), SyntaxError, selector);
+    }
+  });
+
+});
+
+describe('SelectorFilter', () => {
+
+  test('type selector with descendants', async () => {
+    assert.equal(
+      await select('<div><p>a <b>b</b></p><span>c</span><p>d</p></div>', 'p'),
+      '<p>a <b>b</b></p><p>d</p>'
+    );
+  });
+
+  test('id and class selectors', async () => {
+    const html = '<ul><li class="item active">a</li><li class="item">b</li><li id="last">c</li></ul>';
+    assert.equal(await select(html, '.active'), '<li class="item active">a</li>');
+    assert.equal(await select(html, 'li#last'), '<li id="last">c</li>');
+    assert.equal(await select(html, '.item:not(.active)'), '<li class="item">b</li>');
+  });
+
+  test('attribute selectors', async () => {
+    const html = '<a href="https://a.com">a</a><a href="/b" rel="nofollow me">b</a><a>c</a>';
+    assert.equal(await select(html, 'a[href^="https:"]'), '<a href="https://a.com">a</a>');
+    assert.equal(await select(html, '[rel~=me]'), '<a href="/b" rel="nofollow me">b</a>');
+    assert.equal(await select(html, 'a:not([href])'), '<a>c</a>');
+  });
+
+  test('attribute values are decoded', async () => {
+    assert.equal(await select('<a title="a&amp;b">x</a>', '[title="a&b"]'), '<a title="a&amp;b">x</a>');
+  });
+
+  test('descendant and child combinators', async () => {
+    const html = '<article><p>a</p><section><p>b</p></section></article><p>c</p>';
+    assert.equal(await select(html, 'article p'), '<p>a</p><p>b</p>');
+    assert.equal(await select(html, 'article > p'), '<p>a</p>');
+    assert.equal(await select(html, 'article > * > p'), '<p>b</p>');
+  });
+
+  test('nested matches are emitted once', async () => {
+    assert.equal(await select('<div><div>a</div></div>', 'div'), '<div><div>a</div></div>');
+  });
+
+  test('selector lists', async () => {
+    assert.equal(await select('<h1>a</h1><p>b</p><h2>c</h2>', 'h1, h2'), '<h1>a</h1><h2>c</h2>');
+  });
+
+  test('implied end tags', async () => {
+    assert.equal(
+      await select('<ul><li>a<li class="x">b<li>c</ul>', 'li.x'),
+      '<li class="x">b'
+    );
+    assert.equal(await select('<p>a<br>b<p>c', 'br'), '<br>');
+  });
+
+  test('case-insensitive names in html', async () => {
+    assert.equal(await select('<DIV ID="a">x</DIV>', 'div#a'), '<DIV ID="a">x</DIV>');
+  });
+
+  test('xml mode', async () => {
+    const xml = '<feed><entry><Title>a</Title></entry><entry><title>b</title></entry></feed>';
+    assert.equal(await select(xml, 'entry > Title', { mode: 'xml' }), '<Title>a</Title>');
+  });
+
+  test('invalid selector throws on construction', () => {
+    assert.throws(() => new SelectorFilter('div >'), SyntaxError);
+  });
+
+});
@@ -0,0 +1,391 @@
+import { Transform, TransformCallback } from "node:stream";
+import { parseTag } from "./tag.js";
+import { ElementStack } from "./tree.js";
+import type { Token } from "./types.js";
+
+export type AttributeOperator = "" | "=" | "~=" | "|=" | "^=" | "$=" | "*=";
+
+export interface AttributeSelector {
+  name: string;
+  // Empty for presence selectors like `[href]`
+  operator: AttributeOperator;
+  value: string;
+}
+
+export interface CompoundSelector {
+  // null for `*` or when no type is given
+  name: string | null;
+  // `#id` and `.class` are stored as `[id=...]` and `[class~=...]`
+  attributes: AttributeSelector[];
+  // Selector lists of `:not(...)`
+  not: ComplexSelector[][];
+}
+
+export interface ComplexSelector {
+  compounds: CompoundSelector[];
+  // Combinator between compounds[i] and compounds[i + 1]
+  combinators: (" " | ">")[];
+}
+
+export interface SelectorOptions {
+  // Type and attribute names are case-sensitive in XML
+  mode?: "html" | "xml";
+}
+
+const isNameChar = (c: string): boolean =>
+  (c >= "a" && c <= "z") ||
+  (c >= "A" && c <= "Z") ||
+  (c >= "0" && c <= "9") ||
+  c === "-" ||
+  c === "_" ||
+  c > "\x7f";
+
+const isSpace = (c: string): boolean =>
+  c === " " || c === "\t" || c === "\n" || c === "\r" || c === "\f";
+
+class SelectorParser {
+  private i: number = 0;
+
+  constructor(private input: string, private xml: boolean) {}
+
+  list(nested: boolean): ComplexSelector[] {
+    const list = [this.complex()];
+    this.space();
+    while (this.input[this.i] === ",") {
+      this.i++;
+      list.push(this.complex());
+      this.space();
+    }
+    if (nested ? this.input[this.i] !== ")" : this.i < this.input.length) {
+      throw this.error();
+    }
+    return list;
+  }
+
+  private complex(): ComplexSelector {
+    this.space();
+    const selector: ComplexSelector = {
+      compounds: [this.compound()],
+      combinators: [],
+    };
+    for (;;) {
+      const start = this.i;
+      this.space();
+      const c = this.input[this.i];
+      if (c === undefined || c === "," || c === ")") {
+        this.i = start;
+        return selector;
+      }
+      if (c === ">") {
+        this.i++;
+        this.space();
+        selector.combinators.push(">");
+      } else if (this.i > start) {
+        selector.combinators.push(" ");
+      } else {
+        throw this.error();
+      }
+      selector.compounds.push(this.compound());
+    }
+  }
+
+  private compound(): CompoundSelector {
+    const compound: CompoundSelector = { name: null, attributes: [], not: [] };
+    const start = this.i;
+    if (this.input[this.i] === "*") this.i++;
+    else if (this.peekName()) compound.name = this.name();
+
+    for (;;) {
+      const c = this.input[this.i];
+      if (c === "#") {
+        this.i++;
+        compound.attributes.push({
+          name: "id",
+          operator: "=",
+          value: this.ident(),
+        });
+      } else if (c === ".") {
+        this.i++;
+        compound.attributes.push({
+          name: "class",
+          operator: "~=",
+          value: this.ident(),
+        });
+      } else if (c === "[") {
+        this.i++;
+        compound.attributes.push(this.attribute());
+      } else if (c === ":") {
+        if (this.input.slice(this.i, this.i + 5).toLowerCase() !== ":not(") {
+          throw this.error();
+        }
+        this.i += 5;
+        compound.not.push(this.list(true));
+        this.i++;
+      } else {
+        break;
+      }
+    }
+
+    if (this.i === start) throw this.error();
+    return compound;
+  }
+
+  private attribute(): AttributeSelector {
+    this.space();
+    const name = this.name();
+    this.space();
+    let operator: AttributeOperator = "";
+    let value = "";
+    const c = this.input[this.i];
+    if (c === "]") {
+      this.i++;
+      return { name, operator, value };
+    }
+    if (c === "=") {
+      operator = "=";
+      this.i++;
+    } else if ("~|^$*".includes(c) && this.input[this.i + 1] === "=") {
+      operator = (c + "=") as AttributeOperator;
+      this.i += 2;
+    } else {
+      throw this.error();
+    }
+    this.space();
+    const quote = this.input[this.i];
+    if (quote === '"' || quote === "'") {
+      const end = this.input.indexOf(quote, this.i + 1);
+      if (end === -1) throw this.error();
+      value = this.input.slice(this.i + 1, end);
+      this.i = end + 1;
+    } else {
+      value = this.ident();
+    }
+    this.space();
+    if (this.input[this.i] !== "]") throw this.error();
+    this.i++;
+    return { name, operator, value };
+  }
+
+  private name(): string {
+    const name = this.ident();
+    return this.xml ? name : name.toLowerCase();
+  }
+
+  private ident(): string {
+    let result = "";
+    while (this.i < this.input.length) {
+      const c = this.input[this.i];
+      if (c === "\\" && this.i + 1 < this.input.length) {
+        result += this.input[this.i + 1];
+        this.i += 2;
+      } else if (isNameChar(c)) {
+        result += c;
+        this.i++;
+      } else {
+        break;
+      }
+    }
+    if (result === "") throw this.error();
+    return result;
+  }
+
+  private peekName(): boolean {
+    const c = this.input[this.i];
+    return c !== undefined && (c === "\\" || isNameChar(c));
+  }
+
+  private space(): void {
+    while (this.i < this.input.length && isSpace(this.input[this.i])) {
+      this.i++;
+    }
+  }
+
+  private error(): SyntaxError {
+    return new SyntaxError(
+      `Invalid selector "${this.input}" at position ${this.i}`
+    );
+  }
+}
+
+/**
+ * Parse a selector list such as `article p, #content > ul li a`. Supports
+ * type, id, class and attribute selectors, descendant and child combinators
+ * and `:not()`.
+ */
+export function parseSelector(
+  selector: string,
+  options: SelectorOptions = {}
+): ComplexSelector[] {
+  return new SelectorParser(selector, options.mode === "xml").list(false);
+}
+
+/**
+ * Open element as seen by selectors. Attributes are only parsed when a
+ * selector needs them.
+ */
+export class SelectorElement {
+  private _attributes: Map<string, string> | null = null;
+
+  constructor(
+    readonly name: string,
+    readonly token: Token,
+    private mode: "html" | "xml" = "html"
+  ) {}
+
+  get attributes(): Map<string, string> {
+    if (this._attributes === null) {
+      const tag = parseTag(this.token[1], {
+        mode: this.mode,
+        decodeEntities: true,
+      });
+      this._attributes = new Map();
+      for (const attribute of tag.attributes) {
+        // The first occurrence of an attribute wins
+        if (!this._attributes.has(attribute.name)) {
+          this._attributes.set(attribute.name, attribute.value ?? "");
+        }
+      }
+    }
+    return this._attributes;
+  }
+}
+
+function matchAttribute(
+  selector: AttributeSelector,
+  element: SelectorElement
+): boolean {
+  const value = element.attributes.get(selector.name);
+  if (value === undefined) return false;
+  const expected = selector.value;
+  switch (selector.operator) {
+    case "":
+      return true;
+    case "=":
+      return value === expected;
+    case "~=":
+      return expected !== "" && value.split(/[ \t\n\r\f]+/).includes(expected);
+    case "|=":
+      return value === expected || value.startsWith(expected + "-");
+    case "^=":
+      return expected !== "" && value.startsWith(expected);
+    case "$=":
+      return expected !== "" && value.endsWith(expected);
+    case "*=":
+      return expected !== "" && value.includes(expected);
+  }
+}
+
+function matchCompound(
+  compound: CompoundSelector,
+  stack: SelectorElement[],
+  index: number
+): boolean {
+  const element = stack[index];
+  if (compound.name !== null && compound.name !== element.name) return false;
+  for (const attribute of compound.attributes) {
+    if (!matchAttribute(attribute, element)) return false;
+  }
+  for (const list of compound.not) {
+    if (list.some((selector) => matchComplex(selector, stack, index))) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function matchFrom(
+  selector: ComplexSelector,
+  k: number,
+  stack: SelectorElement[],
+  index: number
+): boolean {
+  if (!matchCompound(selector.compounds[k], stack, index)) return false;
+  if (k === 0) return true;
+  if (selector.combinators[k - 1] === ">") {
+    return index > 0 && matchFrom(selector, k - 1, stack, index - 1);
+  }
+  for (let j = index - 1; j >= 0; j--) {
+    if (matchFrom(selector, k - 1, stack, j)) return true;
+  }
+  return false;
+}
+
+function matchComplex(
+  selector: ComplexSelector,
+  stack: SelectorElement[],
+  index: number
+): boolean {
+  return matchFrom(selector, selector.compounds.length - 1, stack, index);
+}
+
+/**
+ * Test whether the innermost element of a stack of open elements matches a
+ * selector list.
+ */
+export function matchSelector(
+  selectors: ComplexSelector[],
+  stack: SelectorElement[]
+): boolean {
+  const index = stack.length - 1;
+  return (
+    index >= 0 &&
+    selectors.some((selector) => matchComplex(selector, stack, index))
+  );
+}
+
+export interface SelectorFilterOptions extends SelectorOptions {}
+
+/**
+ * Only let through the tokens of elements matching a selector list, their
+ * descendants included, in a single forward pass.
+ */
+export class SelectorFilter extends Transform {
+  private selectors: ComplexSelector[];
+  private mode: "html" | "xml";
+  private stack: ElementStack;
+  private elements: SelectorElement[] = [];
+  private matched: boolean[] = [];
+  // Number of open elements matching the selector
+  private inside: number = 0;
+
+  constructor(selector: string, options: SelectorFilterOptions = {}) {
+    super({ objectMode: true });
+    this.mode = options.mode ?? "html";
+    this.selectors = parseSelector(selector, options);
+    this.stack = new ElementStack(
+      options,
+      (name, token) => this._enter(name, token),
+      (name, token) => this._leave(token)
+    );
+  }
+
+  _transform = (
+    token: Token,
+    enc: BufferEncoding,
+    next: TransformCallback
+  ): void => {
+    if (!this.stack.write(token) && this.inside > 0) this.push(token);
+    next();
+  };
+
+  _flush = (next: TransformCallback): void => {
+    this.stack.end();
+    next();
+  };
+
+  private _enter(name: string, token: Token): void {
+    this.elements.push(new SelectorElement(name, token, this.mode));
+    // Descendants of a matching element are let through without testing them
+    const matched =
+      this.inside === 0 && matchSelector(this.selectors, this.elements);
+    this.matched.push(matched);
+    if (matched) this.inside++;
+    if (this.inside > 0) this.push(token);
+  }
+
+  private _leave(token: Token | null): void {
+    if (token && this.inside > 0) this.push(token);
+    if (this.matched.pop()) this.inside--;
+    this.elements.pop();
+  }
+}
@@ -0,0 +1,150 @@
+import { test, describe } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { Readable } from 'stream';
+import { Tokenizer } from './tokenizer.js';
+import type { TokenizerSnapshot } from './tokenizer.js';
+import { nodeBytes } from './buffers.js';
+import { MarkupTokenizer } from './index.js';
+import { MarkupTokenizerStream } from './web.js';
+import type { MarkupTokenizerOptions, ObjectToken, Token } from './index.js';
+
+const html = '<!DOCTYPE html><html><head><title>a &amp; b</title><script>if (a < b) {}</script></head>\n' +
+  '<body class="x"><!-- c --><p>hello  <b>world</b></p><pre> x </pre><br/><![CDATA[d]]><?e?>' +
+  '<a href="{{url}}" title=\'<%= t %>\'>{{#if x}}y{{/if}}</a><textarea><p></textarea><plaintext><a>';
+
+type Result = { tokens: string[], diagnostics: string[] };
+
+const describeToken = (token: Token | ObjectToken): string => {
+  if (!Array.isArray(token)) return JSON.stringify({ ...token, raw: token.raw.toString() });
+  const [type, buf, position] = token;
+  assert.ok(Buffer.isBuffer(buf));
+  return JSON.stringify([type, buf.toString(), position]);
+};
+
+// Write `input` in chunks of `size` bytes
+const write = (tokenizer: Tokenizer, input: Buffer, size: number) => {
+  for (let i = 0; i < input.length; i += size) tokenizer.write(input.subarray(i, i + size));
+};
+
+const create = (options: MarkupTokenizerOptions, tokens: string[]) =>
+  new Tokenizer(options, token => tokens.push(describeToken(token as Token | ObjectToken)), nodeBytes);
+
+const diagnostics = (tokenizer: Tokenizer) => tokenizer.diagnostics.map(({ code, offset }) => `${code} ${offset}`);
+
+const full = (input: Buffer, options: MarkupTokenizerOptions): Result => {
+  const tokens: string[] = [];
+  const tokenizer = create(options, tokens);
+  tokenizer.write(input);
+  tokenizer.end();
+  return { tokens, diagnostics: diagnostics(tokenizer) };
+};
+
+// Stop after `split` bytes, save a snapshot through JSON and finish with a new tokenizer
+const resumed = (input: Buffer, options: MarkupTokenizerOptions, split: number, size: number): Result => {
+  const tokens: string[] = [];
+  const first = create(options, tokens);
+  write(first, input.subarray(0, split), size);
+  const snapshot: TokenizerSnapshot = JSON.parse(JSON.stringify(first.snapshot()));
+  assert.equal(snapshot.consumed, split);
+
+  const second = create(snapshot.options, tokens);
+  second.restore(snapshot);
+  write(second, input.subarray(snapshot.consumed), size);
+  second.end();
+  return { tokens, diagnostics: [...diagnostics(first), ...diagnostics(second)] };
+};
+
+const check = (input: Buffer, options: MarkupTokenizerOptions) => {
+  const expected = full(input, options);
+  for (const size of [1, 3]) {
+    for (let split = 0; split <= input.length; split++) {
+      assert.deepEqual(resumed(input, options, split, size), expected, `split at ${split} in chunks of ${size}`);
+    }
+  }
+};
+
+describe('tokenizer snapshots', () => {
+
+  test('resume at every byte', () => {
+    check(Buffer.from(html), { encoding: 'utf-8' });
+  });
+
+  test('options', () => {
+    const input = Buffer.from(html);
+    for (const options of [
+      { positions: true, splitComments: true },
+      { templateDelimiters: [['{{', '}}'], ['<%', '%>']] as [string, string][], positions: true },
+      { spec: true, decodeEntities: true, whitespace: 'collapse' as const },
+      { maxTextLength: { max: 4, action: 'split' as const }, maxAttributes: { max: 1, action: 'truncate' as const } },
+      { mode: 'xml' as const, ignoreText: true },
+      { objectTokens: true as const }
+    ]) {
+      check(input, { encoding: 'utf-8', ...options });
+    }
+  });
+
+  test('multi-byte characters and single-byte encodings', () => {
+    check(Buffer.from('<p title="é">ünïcödé 😀</p>'), { encoding: 'utf-8', positions: true });
+    check(Buffer.from([0x3c, 0x70, 0x3e, 0x80, 0xe9, 0x3c, 0x2f, 0x70, 0x3e]), { encoding: 'windows-1252' });
+  });
+
+  test('while the encoding is being detected', () => {
+    const input = Buffer.from('<head><meta charset="windows-1252"></head><p>\xe9</p>', 'latin1');
+    check(input, {});
+    const tokenizer = create({}, []);
+    tokenizer.write(input.subarray(0, 10));
+    assert.equal(tokenizer.snapshot().transcoder.encoding, null);
+  });
+
+  test('stateful multi-byte decoders are not supported', () => {
+    const tokenizer = create({ encoding: 'shift_jis' }, []);
+    tokenizer.write(Buffer.from('<p>'));
+    assert.throws(() => tokenizer.snapshot(), RangeError);
+  });
+
+  test('unsupported versions', () => {
+    const snapshot = create({}, []).snapshot();
+    assert.throws(() => create({}, []).restore({ ...snapshot, version: 0 }), TypeError);
+  });
+
+  test('Node stream', async () => {
+    const first = new MarkupTokenizer({ positions: true });
+    const tokens: Token[] = [];
+    first.on('data', (token: Token) => tokens.push(token));
+    first.write(Buffer.from('<p>hel'));
+    const snapshot = JSON.parse(JSON.stringify(first.snapshot()));
+    first.destroy();
+
+    const second = MarkupTokenizer.restore(snapshot);
+    for await (const token of Readable.from([Buffer.from('lo</p>')]).pipe(second)) tokens.push(token);
+    assert.deepEqual(tokens.map(([type, buf, position]) => [type, buf.toString(), position!.start]), [
+      ['open', '<p>', 0],
+      ['text', 'hello', 3],
+      ['close', '</p>', 8]
+    ]);
+  });
+
+  test('web stream', async () => {
+    const first = new MarkupTokenizerStream({ encoding: 'utf-8' });
+    const writer = first.writable.getWriter();
+    const reader = first.readable.getReader();
+    // The readable side has no buffer: the write only resolves once tokens are read
+    writer.write(new TextEncoder().encode('<p>hel'));
+    const { value } = await reader.read();
+    assert.equal(new TextDecoder().decode(value![1]), '<p>');
+    const snapshot = JSON.parse(JSON.stringify(first.snapshot()));
+
+    const second = MarkupTokenizerStream.restore(snapshot);
+    const secondWriter = second.writable.getWriter();
+    secondWriter.write(new TextEncoder().encode('lo</p>'));
+    secondWriter.close();
+    const rest = [];
+    for (const reader = second.readable.getReader(); ;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      rest.push([value[0], new TextDecoder().decode(value[1])]);
+    }
+    assert.deepEqual(rest, [['text', 'hello'], ['close', '</p>']]);
+  });
+
+});
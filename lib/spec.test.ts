@@ -0,0 +1,183 @@
+import { test, describe } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { Tokenizer } from './tokenizer.js';
+import { nodeBytes } from './buffers.js';
+import { parseTag, parseDoctype } from './index.js';
+import type { Diagnostic, DiagnosticCode, Token } from './index.js';
+
+// Tokenizer vectors of html5lib-tests (https://github.com/html5lib/html5lib-tests), see SOURCE.md
+const FIXTURES = join(__dirname, '..', '..', 'lib', 'fixtures');
+const VECTORS = join(FIXTURES, 'html5lib');
+// Cases of this repository in the same format, with error codes
+const CASES = join(FIXTURES, 'spec-mode.test');
+
+// Errors reported by spec mode, others are not checked
+const CHECKED: DiagnosticCode[] = [
+  'eof-before-tag-name',
+  'missing-end-tag-name',
+  'invalid-first-character-of-tag-name',
+  'incorrectly-opened-comment',
+  'unexpected-question-mark-instead-of-tag-name',
+  'cdata-in-html-content'
+];
+
+type OutputToken = unknown[] | 'ParseError';
+
+interface Vector {
+  description: string;
+  input: string;
+  output: OutputToken[];
+  errors?: { code: string }[];
+  initialStates?: string[];
+  lastStartTag?: string;
+}
+
+// States spec mode does not implement, whose vectors are skipped
+const skipped = (vector: Vector): string | null => {
+  if (vector.initialStates && !vector.initialStates.some(state => /^data state$/i.test(state))) {
+    return 'initial state other than the data state';
+  }
+  if (vector.lastStartTag) return 'appropriate end tags';
+  if (vector.input.includes('\0')) return 'U+0000 replacement';
+  if (/<!doctype[^>]*$/i.test(vector.input)) return 'end of file in a DOCTYPE';
+  // The tokenizer ends comments at '-->' only
+  if (/<!--(?:(?!-->)[\s\S])*$/.test(vector.input)) return 'comment end states';
+  return null;
+};
+
+const run = (chunks: string[]): { tokens: Token[], diagnostics: Diagnostic[] } => {
+  const tokens: Token[] = [];
+  const options = { spec: true, decodeEntities: true, encoding: 'utf-8' };
+  const tokenizer = new Tokenizer(options, token => tokens.push(token as Token), nodeBytes);
+  for (const chunk of chunks) tokenizer.write(Buffer.from(chunk));
+  tokenizer.end();
+  return { tokens, diagnostics: tokenizer.diagnostics };
+};
+
+const commentData = (text: string): string => {
+  if (text.startsWith('<!--')) {
+    const body = text.slice(4);
+    if (body === '>' || body === '->') return '';
+    return body.endsWith('-->') ? body.slice(0, -3) : body;
+  }
+  // Bogus comments keep the '?' of '<?'
+  const data = text.slice(text.startsWith('<?') ? 1 : 2);
+  return data.endsWith('>') ? data.slice(0, -1) : data;
+};
+
+// Adjacent characters merged, parse errors left out
+const normalize = (output: OutputToken[]): unknown[][] => {
+  const tokens: unknown[][] = [];
+  for (const token of output) {
+    if (token === 'ParseError') continue;
+    const last = tokens[tokens.length - 1];
+    if (token[0] === 'Character' && last && last[0] === 'Character') last[1] += token[1] as string;
+    else tokens.push([...token]);
+  }
+  return tokens;
+};
+
+// Tokens as html5lib output
+const toOutput = (tokens: Token[]): unknown[][] => {
+  const output: unknown[][] = [];
+  for (const [type, buf] of tokens) {
+    const text = buf.toString();
+    if (type === 'text') {
+      output.push(['Character', text]);
+    } else if (type === 'open' || type === 'close') {
+      const tag = parseTag(buf, { spec: true, decodeEntities: true });
+      if (type === 'close') {
+        output.push(['EndTag', tag.name]);
+        continue;
+      }
+      const attributes: Record<string, string> = {};
+      for (const { name, value } of tag.attributes) {
+        if (!(name in attributes)) attributes[name] = value ?? '';
+      }
+      output.push(['StartTag', tag.name, attributes, ...(tag.selfClosing ? [true] : [])]);
+    } else if (type === 'comment') {
+      output.push(['Comment', commentData(text)]);
+    } else if (type === 'doctype') {
+      const { name, publicId, systemId, forceQuirks } = parseDoctype(buf);
+      output.push(['DOCTYPE', name, publicId, systemId, !forceQuirks]);
+    } else {
+      output.push([type, text]);
+    }
+  }
+  return normalize(output);
+};
+
+const checked = (diagnostics: Diagnostic[]): string[] =>
+  diagnostics.map(({ code }) => code).filter(code => CHECKED.includes(code));
+
+// Vectors before error codes only count parse errors: spec mode must not report more
+const check = (vector: Vector) => {
+  // Newlines are normalized before tokenizing, as the format requires
+  const input = vector.input.replace(/\r\n?/g, '\n');
+  const errors = vector.output.filter(token => token === 'ParseError').length;
+  // In one chunk, then one character at a time
+  for (const chunks of [[input], [...input]]) {
+    const { tokens, diagnostics } = run(chunks);
+    assert.deepEqual(toOutput(tokens), normalize(vector.output));
+    if (vector.errors) {
+      assert.deepEqual(checked(diagnostics), vector.errors.map(({ code }) => code).filter(code => CHECKED.includes(code as DiagnosticCode)));
+    } else {
+      assert.ok(checked(diagnostics).length <= errors, `${checked(diagnostics).join(', ')} for ${errors} parse errors`);
+    }
+  }
+};
+
+const load = (file: string): Vector[] => JSON.parse(readFileSync(file, 'utf8')).tests;
+
+const files = readdirSync(VECTORS).filter(file => file.endsWith('.test'));
+
+describe('html5lib tokenizer vectors', () => {
+
+  test('vectors are found', () => {
+    assert.deepEqual(files, ['test1.test', 'test2.test', 'test3.test', 'test4.test']);
+  });
+
+  for (const file of files) {
+    describe(file, () => {
+      for (const vector of load(join(VECTORS, file))) {
+        const reason = skipped(vector);
+        test(vector.description, reason ? { skip: reason } : {}, () => check(vector));
+      }
+    });
+  }
+
+});
+
+describe('spec mode cases', () => {
+
+  for (const vector of load(CASES)) {
+    test(vector.description, () => check(vector));
+  }
+
+});
+
+describe('spec option', () => {
+
+  test('is ignored in XML mode', () => {
+    const tokens: Token[] = [];
+    const tokenizer = new Tokenizer({ spec: true, mode: 'xml' }, token => tokens.push(token as Token), nodeBytes);
+    tokenizer.write(Buffer.from('<?xml version="1.0"?><a><![CDATA[x]]></a>'));
+    tokenizer.end();
+    assert.deepEqual(tokens.map(([type]) => type), ['pi', 'open', 'cdata', 'close']);
+  });
+
+  test('keeps source positions of dropped end tags', () => {
+    const tokens: Token[] = [];
+    const tokenizer = new Tokenizer({ spec: true, positions: true }, token => tokens.push(token as Token), nodeBytes);
+    tokenizer.write(Buffer.from('a</>b<!x>'));
+    tokenizer.end();
+    assert.deepEqual(tokens.map(([type, buf, position]) => [type, buf.toString(), position!.start]), [
+      ['text', 'a', 0],
+      ['text', 'b', 4],
+      ['comment', '<!x>', 5]
+    ]);
+  });
+
+});
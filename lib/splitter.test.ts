@@ -0,0 +1,92 @@
+import { test, describe } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { Readable } from 'stream';
+import { RecordSplitter } from './index.js';
+import type { RecordSplitterOptions, SplitRecord } from './index.js';
+
+const split = async (input: string | string[], path: string, options?: RecordSplitterOptions): Promise<SplitRecord[]> => {
+  const chunks = typeof input === 'string' ? [input] : input;
+  const records: SplitRecord[] = [];
+  for await (const record of Readable.from(chunks.map(chunk => Buffer.from(chunk))).pipe(new RecordSplitter(path, options))) {
+    records.push(record);
+  }
+  return records;
+};
+
+const simplify = (records: SplitRecord[]) => records.map(({ name, raw, start, end }) => [name, raw.toString(), start, end]);
+
+const sitemap = '<?xml version="1.0"?>\n<urlset>\n  <url><loc>https://a.example/</loc></url>\n' +
+  '  <url><loc>https://b.example/</loc><image:image><url>x</url></image:image></url>\n</urlset>\n';
+
+describe('RecordSplitter', () => {
+
+  test('elements of a path with their byte ranges', async () => {
+    const records = await split(sitemap, 'urlset/url', { mode: 'xml' });
+    assert.deepEqual(simplify(records), [
+      ['url', '<url><loc>https://a.example/</loc></url>', 33, 73],
+      ['url', '<url><loc>https://b.example/</loc><image:image><url>x</url></image:image></url>', 76, 155]
+    ]);
+    for (const { raw, start, end } of records) {
+      assert.equal(Buffer.from(sitemap).subarray(start, end).toString(), raw.toString());
+    }
+  });
+
+  test('across chunks', async () => {
+    const chunks = sitemap.match(/[\s\S]{1,3}/g)!;
+    assert.deepEqual(simplify(await split(chunks, 'url', { mode: 'xml' })), simplify(await split(sitemap, 'url', { mode: 'xml' })));
+  });
+
+  test('elements nested in themselves', async () => {
+    const xml = '<a><b>1<b>2</b></b><c><b>3</b></c><b/></a>';
+    assert.deepEqual(simplify(await split(xml, 'b', { mode: 'xml' })).map(([, raw]) => raw), [
+      '<b>1<b>2</b></b>',
+      '<b>3</b>',
+      '<b/>'
+    ]);
+    assert.deepEqual(simplify(await split(xml, 'a/b', { mode: 'xml' })).map(([, raw]) => raw), ['<b>1<b>2</b></b>', '<b/>']);
+    assert.deepEqual(simplify(await split(xml, 'c/b', { mode: 'xml' })).map(([, raw]) => raw), ['<b>3</b>']);
+  });
+
+  test('anchored paths', async () => {
+    const xml = '<a><a>x</a></a>';
+    assert.deepEqual(simplify(await split(xml, '/a/a', { mode: 'xml' })).map(([, raw]) => raw), ['<a>x</a>']);
+    assert.deepEqual(await split(xml, '/a/a/a', { mode: 'xml' }), []);
+  });
+
+  test('html end tags', async () => {
+    const html = '<UL><li>a<li>b <br> c</Li><li><img src=x></ul><p>d';
+    assert.deepEqual(simplify(await split(html, 'ul/li')), [
+      ['li', '<li>a', 4, 9],
+      ['li', '<li>b <br> c</Li>', 9, 26],
+      ['li', '<li><img src=x>', 26, 41]
+    ]);
+    assert.deepEqual(simplify(await split(html, 'p')), [['p', '<p>d', 46, 50]]);
+    assert.deepEqual(simplify(await split(html, 'IMG')).map(([, raw]) => raw), ['<img src=x>']);
+  });
+
+  test('records are the input bytes', async () => {
+    const input = Buffer.from('<item>caf\xe9 <!-- > --><![CDATA[<item>]]></item>', 'latin1');
+    const records: SplitRecord[] = [];
+    for await (const record of Readable.from([input]).pipe(new RecordSplitter('item', { mode: 'xml' }))) records.push(record);
+    assert.deepEqual(records.map(({ raw }) => raw), [input]);
+  });
+
+  test('records of utf-16 input', async () => {
+    const input = Buffer.from('\ufeff<?xml version="1.0" encoding="utf-16"?><list><item>café 日本</item><item>😀</item></list>', 'utf16le');
+    for (const size of [1, 5, input.length]) {
+      const chunks: Buffer[] = [];
+      for (let i = 0; i < input.length; i += size) chunks.push(input.subarray(i, i + size));
+      const records: SplitRecord[] = [];
+      for await (const record of Readable.from(chunks).pipe(new RecordSplitter('item', { mode: 'xml' }))) records.push(record);
+      assert.deepEqual(records.map(({ raw }) => raw.toString('utf16le')), ['<item>café 日本</item>', '<item>😀</item>']);
+      for (const { raw, start, end } of records) assert.deepEqual(input.subarray(start, end), raw);
+    }
+  });
+
+  test('invalid paths', () => {
+    for (const path of ['', '/', 'a//b', 'a/', 'a /b']) {
+      assert.throws(() => new RecordSplitter(path), SyntaxError, path);
+    }
+  });
+
+});
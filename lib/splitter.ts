@@ -0,0 +1,164 @@
+import { Transform, TransformCallback } from "node:stream";
+import { Tokenizer } from "./tokenizer.js";
+import { nodeBytes, toBuffer } from "./buffers.js";
+import { ElementStack } from "./tree.js";
+import type { MarkupTokenizerOptions } from "./tokenizer.js";
+import type { Token } from "./types.js";
+
+export interface RecordSplitterOptions
+  extends Pick<
+    MarkupTokenizerOptions,
+    "mode" | "rawTextElements" | "rcdataElements" | "encoding"
+  > {}
+
+export interface SplitRecord {
+  name: string;
+  // Outer markup of the element, byte-for-byte
+  raw: Buffer;
+  // Byte offsets of the element in the input
+  start: number;
+  end: number;
+}
+
+interface ElementPath {
+  names: string[];
+  // Path starting with '/', matched from the root element
+  anchored: boolean;
+}
+
+/**
+ * Parse an element path like `urlset/url`, names being lower-cased in HTML.
+ */
+function parsePath(path: string, xml: boolean): ElementPath {
+  const anchored = path.startsWith("/");
+  const names = (anchored ? path.slice(1) : path).split("/");
+  if (names.some((name) => name.trim() !== name || name === "")) {
+    throw new SyntaxError(`Invalid element path "${path}"`);
+  }
+  return {
+    names: xml ? names : names.map((name) => name.toLowerCase()),
+    anchored,
+  };
+}
+
+// Whether the innermost open elements are the ones of the path
+function matchPath({ names, anchored }: ElementPath, stack: string[]): boolean {
+  const offset = stack.length - names.length;
+  if (offset < 0 || (anchored && offset > 0)) return false;
+  return names.every((name, i) => stack[offset + i] === name);
+}
+
+/**
+ * Split markup into the elements matching a path, bytes in, one record per
+ * element out. Only the element being collected is held in memory, and
+ * matching elements nested in it are part of it.
+ */
+export class RecordSplitter extends Transform {
+  private path: ElementPath;
+  private tokenizer: Tokenizer;
+  private stack: ElementStack;
+  // Element being collected, with the number of open elements it ends at
+  private record: {
+    name: string;
+    depth: number;
+    start: number;
+    end: number;
+  } | null = null;
+  // Input chunks from the first byte a record may still start at
+  private input: Buffer[] = [];
+  // Input offset of the first of them
+  private inputStart: number = 0;
+  // Input offset before which no record starts anymore
+  private keep: number = 0;
+  // Whether the current token is already part of the record
+  private added: boolean = false;
+
+  constructor(path: string, options: RecordSplitterOptions = {}) {
+    super({ readableObjectMode: true });
+    this.path = parsePath(path, options.mode === "xml");
+    this.stack = new ElementStack(
+      options,
+      (name, token) => this._enter(name, token),
+      (name, token) => this._leave(token)
+    );
+    this.tokenizer = new Tokenizer(
+      {
+        mode: options.mode,
+        rawTextElements: options.rawTextElements,
+        rcdataElements: options.rcdataElements,
+        positions: true,
+        // Records are sliced from the input by position, whatever its encoding
+        encoding: options.encoding,
+      },
+      (token) => this._token(token as Token),
+      nodeBytes
+    );
+  }
+
+  _transform = (
+    chunk: string | Buffer,
+    enc: BufferEncoding,
+    next: TransformCallback
+  ): void => {
+    const buf = toBuffer(chunk);
+    this.input.push(buf);
+    this.tokenizer.write(buf);
+    while (
+      this.input.length > 0 &&
+      this.inputStart + this.input[0].length <= this.keep
+    ) {
+      this.inputStart += (this.input.shift() as Buffer).length;
+    }
+    next();
+  };
+
+  _flush = (next: TransformCallback): void => {
+    this.tokenizer.end();
+    // Elements left open end with the input
+    this.stack.end();
+    next();
+  };
+
+  private _token(token: Token): void {
+    this.added = false;
+    this.stack.write(token);
+    if (this.record && !this.added) this._add(token);
+    if (!this.record) this.keep = token[2]!.end;
+  }
+
+  private _add(token: Token): void {
+    this.record!.end = token[2]!.end;
+    this.added = true;
+  }
+
+  private _enter(name: string, token: Token): void {
+    if (this.record || !matchPath(this.path, this.stack.names)) return;
+    this.record = {
+      name,
+      depth: this.stack.names.length,
+      start: token[2]!.start,
+      end: 0,
+    };
+    this._add(token);
+  }
+
+  // Ends implied by another tag leave the record before that tag
+  private _leave(token: Token | null): void {
+    const record = this.record;
+    if (!record || this.stack.names.length !== record.depth) return;
+    if (token) this._add(token);
+    if (this.input.length > 1) this.input = [Buffer.concat(this.input)];
+    const input = this.input[0];
+    const splitRecord: SplitRecord = {
+      name: record.name,
+      raw: input.subarray(
+        record.start - this.inputStart,
+        record.end - this.inputStart
+      ),
+      start: record.start,
+      end: record.end,
+    };
+    this.record = null;
+    this.push(splitRecord);
+  }
+}
@@ -0,0 +1,95 @@
+import { test, describe } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { parseTag } from './index.js';
+
+const parse = (input: string) => parseTag(Buffer.from(input, 'utf8'));
+
+describe('parseTag', () => {
+
+  test('tag name', () => {
+    const tag = parse('<DIV>');
+    assert.equal(tag.name, 'div');
+    assert.deepEqual(tag.attributes, []);
+    assert.equal(tag.selfClosing, false);
+  });
+
+  test('closing tag name', () => {
+    assert.equal(parse('</section>').name, 'section');
+  });
+
+  test('quoted attributes', () => {
+    const input = '<a href="/hello" title=\'Hi there\'>';
+    const tag = parse(input);
+    assert.equal(tag.name, 'a');
+    assert.deepEqual(tag.attributes, [
+      { name: 'href', value: '/hello', quote: '"', start: 3, end: 16, valueStart: 9, valueEnd: 15 },
+      { name: 'title', value: 'Hi there', quote: "'", start: 17, end: 33, valueStart: 24, valueEnd: 32 }
+    ]);
+    assert.equal(input.slice(tag.attributes[1].start, tag.attributes[1].end), "title='Hi there'");
+  });
+
+  test('unquoted and boolean attributes', () => {
+    const tag = parse('<input disabled value=ok Checked>');
+    assert.deepEqual(tag.attributes.map(attr => [attr.name, attr.value, attr.quote]), [
+      ['disabled', null, null],
+      ['value', 'ok', null],
+      ['checked', null, null]
+    ]);
+    assert.equal(tag.attributes[0].valueStart, -1);
+  });
+
+  test('whitespace around equal sign', () => {
+    const tag = parse('<div class = "a b"\n id=main>');
+    assert.deepEqual(tag.attributes.map(attr => [attr.name, attr.value]), [
+      ['class', 'a b'],
+      ['id', 'main']
+    ]);
+  });
+
+  test('markup inside quoted values', () => {
+    const tag = parse('<div title="a > b" data-x=\'"quoted"\'>');
+    assert.deepEqual(tag.attributes.map(attr => attr.value), ['a > b', '"quoted"']);
+  });
+
+  test('empty values', () => {
+    const tag = parse('<div a="" b=\'\'>');
+    assert.deepEqual(tag.attributes.map(attr => [attr.value, attr.valueStart, attr.valueEnd]), [
+      ['', 8, 8],
+      ['', 13, 13]
+    ]);
+  });
+
+  test('self-closing tags', () => {
+    assert.equal(parse('<br/>').selfClosing, true);
+    assert.equal(parse('<img src="test.jpg" />').selfClosing, true);
+    assert.deepEqual(parse('<img src="test.jpg"/>').attributes.map(attr => attr.value), ['test.jpg']);
+    // The slash belongs to an unquoted value
+    const tag = parse('<a href=/x/>');
+    assert.equal(tag.selfClosing, false);
+    assert.equal(tag.attributes[0].value, '/x/');
+  });
+
+  test('utf-8 values', () => {
+    const tag = parse('<p title="héllo" lang=fr>');
+    assert.equal(tag.attributes[0].value, 'héllo');
+    assert.equal(tag.attributes[1].start, 18);
+  });
+
+  test('xml mode keeps names case', () => {
+    const tag = parseTag(Buffer.from('<soap:Envelope xmlns:soap="x" encodingStyle="y">'), { mode: 'xml' });
+    assert.equal(tag.name, 'soap:Envelope');
+    assert.deepEqual(tag.attributes.map(attr => attr.name), ['xmlns:soap', 'encodingStyle']);
+    const envelope = parseTag(Buffer.from('<Envelope encodingStyle="y"/>'), { mode: 'xml' });
+    assert.equal(envelope.name, 'Envelope');
+    assert.equal(envelope.attributes[0].name, 'encodingStyle');
+    assert.equal(envelope.selfClosing, true);
+  });
+
+  test('decoded attribute values', () => {
+    const buf = Buffer.from('<a href="?a=1&amp;b=2&copy=3" title=&lt;b&gt;>');
+    assert.deepEqual(parseTag(buf).attributes.map(attr => attr.value), ['?a=1&amp;b=2&copy=3', '&lt;b&gt;']);
+    const tag = parseTag(buf, { decodeEntities: true });
+    assert.deepEqual(tag.attributes.map(attr => attr.value), ['?a=1&b=2&copy=3', '<b>']);
+    assert.deepEqual(tag.attributes.map(attr => [attr.valueStart, attr.valueEnd]), [[9, 28], [36, 45]]);
+  });
+});
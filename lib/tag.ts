@@ -0,0 +1,142 @@
+import {
+  GT,
+  SLASH,
+  DQUOTE,
+  SQUOTE,
+  EQUAL,
+  isWhitespace,
+  isTagNameChar,
+  isXmlNameChar,
+} from "./chars.js";
+import { decodeEntities } from "./entities.js";
+import { decode } from "./bytes.js";
+
+export interface TagAttribute {
+  name: string;
+  // null for attributes without a value (e.g. `disabled`)
+  value: string | null;
+  quote: '"' | "'" | null;
+  // Byte range of the whole attribute inside the tag
+  start: number;
+  end: number;
+  // Byte range of the value inside the tag, quotes excluded (-1 when there is no value)
+  valueStart: number;
+  valueEnd: number;
+}
+
+export interface ParseTagOptions {
+  // Tag and attribute names are case-sensitive in XML
+  mode?: "html" | "xml";
+  // Decode character references in attribute values
+  decodeEntities?: boolean;
+  // Tag names run up to whitespace, '/' or '>' like in the tokenizer spec mode
+  spec?: boolean;
+}
+
+export interface Tag {
+  name: string;
+  attributes: TagAttribute[];
+  selfClosing: boolean;
+}
+
+function nameEnd(buf: Uint8Array, len: number, xml: boolean): number {
+  let i = buf[1] === SLASH ? 2 : 1;
+  const isNameChar = xml ? isXmlNameChar : isTagNameChar;
+  while (i < len && isNameChar(buf[i])) i++;
+  return i;
+}
+
+/**
+ * Read the name of a tag token (`div` for `<div class="a">` or `</DIV>`)
+ * without parsing its attributes.
+ */
+export function getTagName(buf: Uint8Array, options: ParseTagOptions = {}): string {
+  const xml = options.mode === "xml";
+  const start = buf[1] === SLASH ? 2 : 1;
+  const end = nameEnd(buf, buf.length, xml || options.spec === true);
+  const name = decode(buf, start, end);
+  return xml ? name : name.toLowerCase();
+}
+
+/**
+ * Parse the name and attributes of a tag token, following the same
+ * attribute and quote rules as the tokenizer.
+ */
+export function parseTag(buf: Uint8Array, options: ParseTagOptions = {}): Tag {
+  const xml = options.mode === "xml";
+  const len = buf.length > 0 && buf[buf.length - 1] === GT ? buf.length - 1 : buf.length;
+  const attributes: TagAttribute[] = [];
+  let selfClosing = false;
+
+  // Tag name (closing tags are parsed too)
+  let i = nameEnd(buf, len, xml || options.spec === true);
+  const name = getTagName(buf, options);
+
+  // Skip whatever is left of the tag name, like the tokenizer does
+  while (i < len && !isWhitespace(buf[i]) && buf[i] !== SLASH) i++;
+
+  while (i < len) {
+    const c = buf[i];
+    if (isWhitespace(c) || c === SLASH) {
+      selfClosing = c === SLASH && i === len - 1;
+      i++;
+      continue;
+    }
+
+    // Attribute name
+    const start = i;
+    while (i < len) {
+      const b = buf[i];
+      if (isWhitespace(b) || b === EQUAL || b === SLASH) break;
+      i++;
+    }
+    if (i === start) i++; // a lone '=' is an attribute name
+    const attributeName = decode(buf, start, i);
+    const attribute: TagAttribute = {
+      name: xml ? attributeName : attributeName.toLowerCase(),
+      value: null,
+      quote: null,
+      start,
+      end: i,
+      valueStart: -1,
+      valueEnd: -1,
+    };
+    attributes.push(attribute);
+
+    // Before attribute value
+    let j = i;
+    while (j < len && isWhitespace(buf[j])) j++;
+    if (j >= len || buf[j] !== EQUAL) continue;
+    j++;
+    while (j < len && isWhitespace(buf[j])) j++;
+    if (j >= len) {
+      i = j;
+      continue;
+    }
+
+    // Attribute value
+    const q = buf[j];
+    if (q === DQUOTE || q === SQUOTE) {
+      const valueStart = j + 1;
+      let valueEnd = buf.indexOf(q, valueStart);
+      if (valueEnd === -1 || valueEnd > len) valueEnd = len;
+      attribute.quote = q === DQUOTE ? '"' : "'";
+      attribute.valueStart = valueStart;
+      attribute.valueEnd = valueEnd;
+      i = Math.min(valueEnd + 1, len);
+    } else {
+      const valueStart = j;
+      while (j < len && !isWhitespace(buf[j])) j++;
+      attribute.valueStart = valueStart;
+      attribute.valueEnd = j;
+      i = j;
+    }
+    const value = decode(buf, attribute.valueStart, attribute.valueEnd);
+    attribute.value = options.decodeEntities
+      ? decodeEntities(value, { attribute: true, mode: options.mode })
+      : value;
+    attribute.end = i;
+  }
+
+  return { name, attributes, selfClosing };
+}
@@ -0,0 +1,146 @@
+import { test, describe } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { Tokenizer } from './tokenizer.js';
+import { nodeBytes } from './buffers.js';
+import { tokenize } from './index.js';
+import type { Diagnostic, MarkupTokenizerOptions, Token } from './index.js';
+
+const DELIMITERS: [string, string][] = [['{{', '}}'], ['<%', '%>'], ['<?php', '?>']];
+
+// Input in one chunk, then in chunks of 1 to 4 bytes, which must give the same tokens
+const run = (input: string, options: MarkupTokenizerOptions = {}): { tokens: string[], diagnostics: Diagnostic[] } => {
+  const all = { templateDelimiters: DELIMITERS, ...options };
+  const list = (tokens: Token[]) => tokens.map(([type, buf]) => `${type} ${buf.toString()}`);
+  const expected = list(tokenize(input, all));
+  let diagnostics: Diagnostic[] = [];
+  for (let size = 1; size <= 4; size++) {
+    const tokens: Token[] = [];
+    const tokenizer = new Tokenizer({ encoding: 'utf-8', ...all }, token => tokens.push(token as Token), nodeBytes);
+    for (let i = 0; i < input.length; i += size) tokenizer.write(Buffer.from(input.slice(i, i + size)));
+    tokenizer.end();
+    assert.deepEqual(list(tokens), expected, `chunks of ${size}`);
+    diagnostics = tokenizer.diagnostics;
+  }
+  return { tokens: expected, diagnostics };
+};
+
+describe('templateDelimiters option', () => {
+
+  test('templates in text', () => {
+    const { tokens, diagnostics } = run('a {{#if a > b}}x{{/if}} <% if (x < y) { %><b>y</b><% } %> <?php echo $a > 1 ?>z');
+    assert.deepEqual(tokens, [
+      'text a ',
+      'template {{#if a > b}}',
+      'text x',
+      'template {{/if}}',
+      'text  ',
+      'template <% if (x < y) { %>',
+      'open <b>',
+      'text y',
+      'close </b>',
+      'template <% } %>',
+      'text  ',
+      'template <?php echo $a > 1 ?>',
+      'text z'
+    ]);
+    assert.deepEqual(diagnostics, []);
+  });
+
+  test('templates in tags', () => {
+    const { tokens, diagnostics } = run('<a href="{{url "x"}}" {{#if a > b}}class=\'{{c}}\'{{/if}} <% if (x) { %>hidden<% } %>>t</a>');
+    assert.deepEqual(tokens, [
+      'open <a href="{{url "x"}}" {{#if a > b}}class=\'{{c}}\'{{/if}} <% if (x) { %>hidden<% } %>>',
+      'text t',
+      'close </a>'
+    ]);
+    assert.deepEqual(diagnostics, []);
+  });
+
+  test('less-than signs in tags', () => {
+    const options = { templateDelimiters: [['<%', '%>']] as [string, string][], strict: true };
+    for (let size = 1; size <= 4; size++) {
+      const tokenizer = new Tokenizer(options, () => {}, nodeBytes);
+      assert.throws(() => {
+        for (let i = 0; i < 5; i += size) tokenizer.write(Buffer.from('<a<b>'.slice(i, i + size)));
+        tokenizer.end();
+      }, { code: 'less-than-in-tag', offset: 2 }, `chunks of ${size}`);
+    }
+    assert.deepEqual(run('<a <%x%>>').tokens, ['open <a <%x%>>']);
+    assert.deepEqual(run('<a<').diagnostics.map(({ code }) => code), ['less-than-in-tag', 'eof-in-tag']);
+  });
+
+  test('chunks ending with a less-than sign after a template', () => {
+    const options = { templateDelimiters: [['{{', '}}'], ['<%', '%>']] as [string, string][] };
+    for (const input of ['x{{/if}}</a><% if (a) { %>y<% } %>', '<a {{b}}<<% x %>>b</a>']) {
+      const expected = tokenize(input, options).map(([type, buf]) => `${type} ${buf}`);
+      for (let split = input.indexOf('}}') + 2; split < input.length; split++) {
+        const tokens: string[] = [];
+        const tokenizer = new Tokenizer(options, token => tokens.push(`${(token as Token)[0]} ${(token as Token)[1]}`), nodeBytes);
+        tokenizer.write(Buffer.from(input.slice(0, split)));
+        tokenizer.write(Buffer.from(input.slice(split)));
+        tokenizer.end();
+        assert.deepEqual(tokens, expected, `split at ${split}`);
+      }
+    }
+  });
+
+  test('without the option', () => {
+    assert.deepEqual(tokenize('{{a}}<% b %>').map(([type]) => type), ['text', 'open']);
+  });
+
+  test('openers starting with a less-than sign', () => {
+    assert.deepEqual(run('a < b <c> <').tokens, ['text a < b ', 'open <c>', 'text  <']);
+    assert.deepEqual(run('<?x>', { templateDelimiters: [['<?php', '?>']] }).tokens, ['pi <?x>']);
+  });
+
+  test('closers do not overlap openers', () => {
+    assert.deepEqual(run('<%> %>').tokens, ['template <%> %>']);
+  });
+
+  test('unclosed templates', () => {
+    const { tokens, diagnostics } = run('<p>{{x');
+    assert.deepEqual(tokens, ['open <p>', 'template {{x']);
+    assert.deepEqual(diagnostics.map(({ code, offset }) => [code, offset]), [['eof-in-template', 3]]);
+    assert.deepEqual(run('<a {{x>').diagnostics.map(({ code }) => code), ['eof-in-tag']);
+  });
+
+  test('raw text and comments are not searched', () => {
+    assert.deepEqual(run('<script>{{a}}</script><!-- <% -->').tokens, [
+      'open <script>',
+      'text {{a}}',
+      'close </script>',
+      'comment <!-- <% -->'
+    ]);
+  });
+
+  test('ignored text', () => {
+    assert.deepEqual(run('x {{a}} y<b>z', { ignoreText: true }).tokens, ['template {{a}}', 'open <b>']);
+  });
+
+  test('positions', () => {
+    const tokens = tokenize('ab{{c}}<%d%>', { templateDelimiters: DELIMITERS, positions: true });
+    assert.deepEqual(tokens.map(([type, , position]) => [type, position!.start, position!.end]), [
+      ['text', 0, 2],
+      ['template', 2, 7],
+      ['template', 7, 12]
+    ]);
+  });
+
+  test('spec and xml modes', () => {
+    assert.deepEqual(run('a<%b%>', { spec: true }).tokens, ['text a', 'template <%b%>']);
+    assert.deepEqual(run('<x a="{{b}}"/>{{c}}', { mode: 'xml' }).tokens, ['selfclose <x a="{{b}}"/>', 'template {{c}}']);
+  });
+
+  test('limits', () => {
+    assert.deepEqual(run('{{abcdef}}', { maxTextLength: { max: 4, action: 'split' } }).tokens, [
+      'template {{ab',
+      'template cdef',
+      'template }}'
+    ]);
+  });
+
+  test('invalid delimiters', () => {
+    assert.throws(() => tokenize('', { templateDelimiters: [['{{', '']] }), TypeError);
+  });
+
+});
@@ -0,0 +1,73 @@
+import { test, describe } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { Readable } from 'stream';
+import { TextExtractor } from './index.js';
+import type { TextExtractorOptions } from './index.js';
+
+const extract = (chunks: string | Buffer | (string | Buffer)[], options?: TextExtractorOptions): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const output: Buffer[] = [];
+    const extractor = new TextExtractor(options);
+    extractor.on('data', (chunk: Buffer) => output.push(chunk));
+    extractor.on('end', () => resolve(Buffer.concat(output).toString()));
+    extractor.on('error', reject);
+    const input = Array.isArray(chunks) ? chunks : [chunks];
+    Readable.from(input.map(chunk => Buffer.from(chunk))).pipe(extractor);
+  });
+
+const page = '<!DOCTYPE html><html><head><title>Tom &amp; Jerry</title><style>p { color: red }</style></head>\n' +
+  '<body>\n  <h1>Hello,\n    world</h1>\n  <!-- hidden -->\n  <p>A <b>bold</b>   move&nbsp;now.<br>Next line</p>' +
+  '<script>if (a < b) document.write("<p>no</p>")</script><template><p>no</p></template>' +
+  '<ul><li>one<li>two</ul><table><tr><td>a</td><td>b</td></tr><tr><td>c</td></tr></table>' +
+  '<pre>\n  x  y\r\n</pre><div>end</div></body></html>\n';
+
+describe('TextExtractor', () => {
+
+  test('readable text', async () => {
+    assert.equal(await extract(page), [
+      'Tom & Jerry',
+      'Hello, world',
+      'A bold move now.',
+      'Next line',
+      'one',
+      'two',
+      'a b',
+      'c',
+      '  x  y',
+      'end'
+    ].join('\n'));
+  });
+
+  test('across chunks', async () => {
+    assert.equal(await extract(page.match(/[\s\S]{1,2}/g)!), await extract(page));
+  });
+
+  test('line breaks', async () => {
+    assert.equal(await extract('a<br>b<br><br>c<p>d</p>e'), 'a\nb\n\nc\nd\ne');
+    assert.equal(await extract('<div><div>a</div></div><div> </div><p>b'), 'a\nb');
+    assert.equal(await extract('<span>a</span> <span>b</span><span>c</span>'), 'a bc');
+  });
+
+  test('raw-text elements', async () => {
+    assert.equal(await extract('<p>a<noscript><img src=x>enable js</noscript>b</p>'), 'ab');
+    assert.equal(await extract('<iframe><b>x</b></iframe><xmp><i>y</i></xmp><noembed>z</noembed><noframes>w</noframes>v'), 'v');
+    assert.equal(await extract('<title>a<b></title><textarea>c<d></textarea>'), 'a<b>\nc<d>');
+    assert.equal(await extract('<p>a</p><plaintext><b>b</b>'), 'a');
+    assert.equal(await extract('<iframe>x</iframe><noscript>y</noscript>', { rawTextElements: ['noscript'] }), 'x');
+  });
+
+  test('attribute text', async () => {
+    const html = '<p>Logo: <img src="x.png" alt="ACME &amp; Co">!<abbr title="HyperText">HTML</abbr></p>';
+    assert.equal(await extract(html), 'Logo: !HTML');
+    assert.equal(await extract(html, { attributeText: true }), 'Logo: ACME & Co ! HyperText HTML');
+  });
+
+  test('encodings', async () => {
+    assert.equal(await extract(Buffer.from('<meta charset="windows-1252"><p>caf\xe9</p>', 'latin1')), 'café');
+  });
+
+  test('xml', async () => {
+    assert.equal(await extract('<rss><item><title>A &lt; B</title><description><![CDATA[<b>c</b>]]></description></item></rss>', { mode: 'xml' }), 'A < B\n<b>c</b>');
+  });
+
+});
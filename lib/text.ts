@@ -0,0 +1,254 @@
+import { Transform, TransformCallback } from "node:stream";
+import {
+  Tokenizer,
+  PREFORMATTED_ELEMENTS,
+  RAW_TEXT_ELEMENTS,
+  RCDATA_ELEMENTS,
+} from "./tokenizer.js";
+import { nodeBytes, toBuffer } from "./buffers.js";
+import { parseTag } from "./tag.js";
+import { ElementStack } from "./tree.js";
+import type { MarkupTokenizerOptions } from "./tokenizer.js";
+import type { Token } from "./types.js";
+
+export interface TextExtractorOptions
+  extends Pick<
+    MarkupTokenizerOptions,
+    "mode" | "encoding" | "rawTextElements" | "rcdataElements"
+  > {
+  // Add the text of alt and title attributes where the element starts
+  attributeText?: boolean;
+}
+
+// Elements whose content is not read, along with the raw-text elements of HTML
+const SKIPPED_ELEMENTS = ["script", "style", "template"];
+
+// Elements starting and ending on their own line
+const BLOCK_ELEMENTS = new Set([
+  "address",
+  "article",
+  "aside",
+  "blockquote",
+  "caption",
+  "dd",
+  "details",
+  "dialog",
+  "div",
+  "dl",
+  "dt",
+  "fieldset",
+  "figcaption",
+  "figure",
+  "footer",
+  "form",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "header",
+  "hgroup",
+  "hr",
+  "legend",
+  "li",
+  "listing",
+  "main",
+  "menu",
+  "nav",
+  "ol",
+  "p",
+  "pre",
+  "section",
+  "summary",
+  "table",
+  "textarea",
+  "title",
+  "tr",
+  "ul",
+]);
+
+// Table cells are separated by a space
+const CELL_ELEMENTS = new Set(["td", "th"]);
+
+const WORD = /[^ \t\n\f\r]+/g;
+const NEWLINES = /\r\n?/g;
+
+/**
+ * Extract the human-readable text of markup, bytes in, text out: entities
+ * decoded, whitespace collapsed outside `<pre>`, line breaks between blocks.
+ */
+export class TextExtractor extends Transform {
+  private tokenizer: Tokenizer;
+  private stack: ElementStack;
+  private mode: "html" | "xml";
+  private attributeText: boolean;
+  private skippedElements: Set<string>;
+  private output: string = "";
+  // Number of open elements whose content is skipped, or preformatted
+  private skipped: number = 0;
+  private preformatted: number = 0;
+  // Whether a newline right after a `<pre>` start tag is still to be dropped
+  private preStart: boolean = false;
+  // Separator before the next text: line breaks of `<br>`, block boundary or space
+  private newlines: number = 0;
+  private block: boolean = false;
+  private space: boolean = false;
+  // Whether text was written, and whether it ended with a newline
+  private written: boolean = false;
+  private lineStart: boolean = true;
+
+  constructor(options: TextExtractorOptions = {}) {
+    super();
+    this.mode = options.mode ?? "html";
+    this.attributeText = options.attributeText ?? false;
+    // Raw text is markup or fallback content, RCDATA is text
+    this.skippedElements = new Set(SKIPPED_ELEMENTS);
+    if (this.mode === "html") {
+      for (const name of options.rawTextElements ?? RAW_TEXT_ELEMENTS) {
+        this.skippedElements.add(name.toLowerCase());
+      }
+      for (const name of options.rcdataElements ?? RCDATA_ELEMENTS) {
+        this.skippedElements.delete(name.toLowerCase());
+      }
+    }
+    this.stack = new ElementStack(
+      options,
+      (name, token) => this._enter(name, token),
+      (name) => this._leave(name)
+    );
+    this.tokenizer = new Tokenizer(
+      {
+        mode: options.mode,
+        encoding: options.encoding,
+        rawTextElements: options.rawTextElements,
+        rcdataElements: options.rcdataElements,
+        decodeEntities: true,
+      },
+      (token) => this._token(token as Token),
+      nodeBytes
+    );
+  }
+
+  _transform = (
+    chunk: string | Buffer,
+    enc: BufferEncoding,
+    next: TransformCallback
+  ): void => {
+    try {
+      this.tokenizer.write(toBuffer(chunk));
+    } catch (error) {
+      return next(error as Error);
+    }
+    this._drain();
+    next();
+  };
+
+  _flush = (next: TransformCallback): void => {
+    try {
+      this.tokenizer.end();
+    } catch (error) {
+      return next(error as Error);
+    }
+    this.stack.end();
+    this._drain();
+    next();
+  };
+
+  private _drain(): void {
+    if (this.output.length > 0) {
+      this.push(this.output);
+      this.output = "";
+    }
+  }
+
+  private _token(token: Token): void {
+    if (this.stack.write(token) || this.skipped > 0) return;
+    const type = token[0];
+    if (type === "text") {
+      this._text(token[1].toString());
+    } else if (type === "cdata" && this.mode === "xml") {
+      // Between `<![CDATA[` and `]]>`
+      this._text(token[1].toString("utf8", 9, token[1].length - 3));
+    }
+  }
+
+  private _enter(name: string, token: Token): void {
+    if (this.skippedElements.has(name)) this.skipped++;
+    if (this.skipped > 0) return;
+    if (BLOCK_ELEMENTS.has(name)) this.block = true;
+    else if (CELL_ELEMENTS.has(name)) this.space = true;
+    else if (name === "br") this.newlines++;
+    if (PREFORMATTED_ELEMENTS.has(name)) {
+      this.preformatted++;
+      this.preStart = true;
+    }
+    if (this.attributeText) this._attributes(token);
+  }
+
+  private _leave(name: string): void {
+    if (this.skipped > 0) {
+      if (this.skippedElements.has(name)) this.skipped--;
+      return;
+    }
+    if (BLOCK_ELEMENTS.has(name)) this.block = true;
+    else if (CELL_ELEMENTS.has(name)) this.space = true;
+    if (PREFORMATTED_ELEMENTS.has(name)) {
+      this.preformatted--;
+      this.preStart = false;
+    }
+  }
+
+  // alt and title values, as words of their own
+  private _attributes(token: Token): void {
+    const { attributes } = parseTag(token[1], {
+      mode: this.mode,
+      decodeEntities: true,
+    });
+    for (const { name, value } of attributes) {
+      if ((name === "alt" || name === "title") && value) {
+        this.space = true;
+        this._words(value);
+        this.space = true;
+      }
+    }
+  }
+
+  private _text(text: string): void {
+    if (this.preformatted === 0) {
+      this._words(text);
+      return;
+    }
+    // Like HTML parsers, drop the newline starting the content
+    if (this.preStart) text = text.replace(/^\r?\n/, "");
+    this.preStart = false;
+    text = text.replace(NEWLINES, "\n");
+    if (text.length > 0) this._append(text);
+  }
+
+  // Words separated by single spaces
+  private _words(text: string): void {
+    let end = 0;
+    for (const match of text.matchAll(WORD)) {
+      if (match.index! > end) this.space = true;
+      this._append(match[0]);
+      end = match.index! + match[0].length;
+    }
+    if (end < text.length) this.space = true;
+  }
+
+  private _append(text: string): void {
+    if (this.written) {
+      let newlines = this.newlines;
+      if (this.block && newlines === 0 && !this.lineStart) newlines = 1;
+      if (newlines > 0) this.output += "\n".repeat(newlines);
+      else if (this.space && !this.lineStart) this.output += " ";
+    }
+    this.newlines = 0;
+    this.block = false;
+    this.space = false;
+    this.output += text;
+    this.written = true;
+    this.lineStart = text.endsWith("\n");
+  }
+}
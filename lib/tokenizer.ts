@@ -0,0 +1,1699 @@
+import {
+  LT,
+  GT,
+  SLASH,
+  QUESTION,
+  BANG,
+  DQUOTE,
+  SQUOTE,
+  EQUAL,
+  AMP,
+  DASH,
+  LBRACKET,
+  RBRACKET,
+  SPACE,
+  TAB,
+  LF,
+  FF,
+  CR,
+  isWhitespace,
+  isAsciiAlpha,
+  isTagNameChar,
+  isXmlNameChar,
+} from "./chars.js";
+import { decodeEntities } from "./entities.js";
+import { parseTag } from "./tag.js";
+import { parseDoctype } from "./doctype.js";
+import { encode, decode, webBytes, toBase64, fromBase64 } from "./bytes.js";
+import { Transcoder } from "./encoding.js";
+import type { TranscoderState } from "./encoding.js";
+import { createDiagnostic, MarkupTokenizerError } from "./diagnostics.js";
+import type { Diagnostic, DiagnosticCode } from "./diagnostics.js";
+import { resolveLimit, measure, join, charBoundary } from "./limits.js";
+import type { Limit, Span } from "./limits.js";
+import type { Bytes } from "./bytes.js";
+import type {
+  TokenType,
+  TokenPosition,
+  Token,
+  ObjectToken,
+} from "./types.js";
+
+// State constants for monomorphic property access
+const TEXT_STATE = 0;
+const OPEN_STATE = 1;
+
+const TAG_NAME_STATE = 1;
+const ATTRIBUTE_NAME_STATE = 2;
+const BEFORE_ATTRIBUTE_VALUE_STATE = 3;
+const ATTRIBUTE_VALUE_STATE = 4;
+// XML mode: the internal subset of a doctype, between '[' and ']'
+const INTERNAL_SUBSET_STATE = 5;
+// Spec mode: right after '<', '</' and '<!'
+const TAG_OPEN_STATE = 6;
+const END_TAG_OPEN_STATE = 7;
+const DECLARATION_STATE = 8;
+
+const NO_QUOTE = 0;
+const DOUBLE_QUOTE = 1;
+const SINGLE_QUOTE = 2;
+
+// Pre-compiled buffers
+// End marker of <plaintext>, which never ends
+const END_PLAINTEXT = new Uint8Array(0);
+const COMMENT_START = encode("<!--");
+const COMMENT_END = encode("-->");
+const CDATA_START = encode("<![CDATA[");
+const CDATA_END = encode("]]>");
+const PI_START = encode("<?");
+const PI_END = encode("?>");
+const BOGUS_COMMENT_END = encode(">");
+const DOCTYPE = encode("doctype");
+const DOCTYPE_START = encode("<!doctype");
+const CDATA = encode("[CDATA[");
+
+export interface MarkupTokenizerOptions {
+  ignoreText?: boolean;
+  positions?: boolean;
+  splitComments?: boolean;
+  mode?: "html" | "xml";
+  rawTextElements?: string[];
+  rcdataElements?: string[];
+  decodeEntities?: boolean;
+  // "auto" to sniff the encoding, or an encoding label like "shift_jis"
+  encoding?: string;
+  // Throw on the first parse error instead of collecting it
+  strict?: boolean;
+  // Follow the HTML Standard tokenizer for '<', end tags and declarations
+  spec?: boolean;
+  // Bytes in a tag, from '<' to '>'
+  maxTagLength?: number | Limit;
+  // Bytes in a text, comment, CDATA or raw-text token
+  maxTextLength?: number | Limit;
+  maxAttributes?: number | Limit;
+  // Emit `ObjectToken`s instead of `[type, bytes]` tuples
+  objectTokens?: boolean | ObjectTokenOptions;
+  // Drop or collapse whitespace in text outside of pre, textarea, listing and raw text
+  whitespace?: WhitespaceMode;
+  // Pairs like ["{{", "}}"]: emitted as template tokens in text, kept whole in tags
+  templateDelimiters?: [string, string][];
+}
+
+export type WhitespaceMode = "preserve" | "dropInsignificant" | "collapse";
+
+// Saved and restored by snapshots, with the number of input bytes written so far
+export interface TokenizerSnapshot {
+  version: number;
+  // Input bytes written before the snapshot, where the input resumes
+  consumed: number;
+  options: MarkupTokenizerOptions;
+  transcoder: TranscoderState;
+  tokenizer: TokenizerState;
+}
+
+// Tokenizer fields in a snapshot: bytes in base64, end markers by index
+export interface TokenizerState {
+  state: number;
+  tagState: number;
+  quoteState: number;
+  raw: number;
+  rawToken: TokenType | null;
+  buffers: string;
+  tail: string;
+  lt: string | null;
+  held: string | null;
+  written: number;
+  tagStart: number;
+  quoteStart: number;
+  kept: number;
+  dropped: Span | null;
+  downgraded: boolean;
+  cut: TagCut | null;
+  doctype: boolean;
+  attributes: number;
+  inName: boolean;
+  attributeCut: number;
+  declared: number;
+  maybeComment: boolean;
+  maybeDoctype: boolean;
+  maybeCdata: boolean;
+  preformatted: number;
+  tagTemplate: number;
+  templateContent: number;
+  position: number;
+  line: number;
+  column: number;
+}
+
+// Start of a tag whose bytes were cut by a limit: its first byte and the
+// name read so far, going on from pending byte `from` while `next` is -1
+export interface TagCut {
+  first: number;
+  name: string;
+  next: number;
+  from: number;
+}
+
+const SNAPSHOT_VERSION = 1;
+
+// Options of a tokenizer emitting object tokens
+export type ObjectTokenizerOptions = MarkupTokenizerOptions & {
+  objectTokens: true | ObjectTokenOptions;
+};
+
+export interface ObjectTokenOptions {
+  // Parse the attributes of open and selfclose tokens
+  attributes?: boolean;
+  // Decode the text of text tokens and the content of comments
+  text?: boolean;
+}
+
+// Elements whose content is not tokenized, as defined by the HTML standard
+export const RAW_TEXT_ELEMENTS = [
+  "script",
+  "style",
+  "xmp",
+  "iframe",
+  "noembed",
+  "noframes",
+  "noscript",
+  "plaintext",
+];
+export const RCDATA_ELEMENTS = ["title", "textarea"];
+// Elements whose whitespace is significant, even when tokenized
+export const PREFORMATTED_ELEMENTS = new Set(["pre", "textarea", "listing"]);
+
+// Inline toLowerCase for performance, markers are compared case-insensitively
+const lower = (c: number): number => (c >= 65 && c <= 90 ? c + 32 : c);
+const upper = (c: number): number => (c >= 97 && c <= 122 ? c - 32 : c);
+
+// The chunk ends before telling whether a '<' opens a template
+const UNDECIDED = -2;
+
+// Distinct tag names interned by each tokenizer, to bound memory on hostile input
+const MAX_NAMES = 1024;
+
+// Text of a token without its delimiters, undefined for tags and doctypes
+function tokenText(type: TokenType, raw: Uint8Array): string | undefined {
+  if (type === "text") return decode(raw);
+  if (type === "cdata") return strip(decode(raw), "<![CDATA[", "]]>");
+  if (type === "pi") return strip(decode(raw), "<?", "?>");
+  if (type !== "comment") return undefined;
+  const text = decode(raw);
+  if (text.startsWith("<!--")) {
+    // `<!-->` and `<!--->` are empty comments
+    return text === "<!-->" || text === "<!--->"
+      ? ""
+      : strip(text, "<!--", "-->");
+  }
+  // Bogus comments in spec mode: `<!x>`, `</ x>` and `<?x>`, which keeps its '?'
+  return strip(text.startsWith("<?") ? text.slice(1) : text.slice(2), "", ">");
+}
+
+// Remove a prefix and a suffix, which is missing when the input ended first
+function strip(text: string, start: string, end: string): string {
+  const content = text.slice(start.length);
+  return content.endsWith(end) ? content.slice(0, -end.length) : content;
+}
+
+// Whitespace collapsed to a single space in "collapse" mode
+const WHITESPACE_RUN = /[ \t\n\f\r]+/g;
+
+// Whether text is only whitespace
+function isBlank(buf: Uint8Array): boolean {
+  for (let i = 0; i < buf.length; i++) {
+    if (!isWhitespace(buf[i])) return false;
+  }
+  return true;
+}
+
+// Whether text has whitespace other than single spaces
+function hasRuns(buf: Uint8Array): boolean {
+  for (let i = 0; i < buf.length; i++) {
+    const c = buf[i];
+    if (c === SPACE) {
+      if (i + 1 < buf.length && isWhitespace(buf[i + 1])) return true;
+    } else if (isWhitespace(c)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Markup tokenizer state machine, shared by the stream and iterator APIs.
+ */
+export class Tokenizer {
+  private state: number = TEXT_STATE;
+  private tagState: number = 0;
+  private quoteState: number = NO_QUOTE;
+  private raw: Uint8Array | null = null;
+  // Token emitted for the whole raw section, or null to emit its content as text
+  private rawToken: TokenType | null = null;
+  private buffers: Uint8Array[] = [];
+  private ignoreText: boolean = false;
+  // Ignored text is skipped as it is read, unless a template opener may start in it
+  private _skipText: boolean = false;
+  private positions: boolean = false;
+  private splitComments: boolean = false;
+  private xml: boolean = false;
+  // End markers (e.g. `</script`) of raw-text and RCDATA elements by tag name
+  private rawElements: Map<string, Uint8Array> = new Map();
+  private rcdata: Set<Uint8Array> = new Set();
+  private decode: boolean = false;
+  private transcoder: Transcoder;
+  private strict: boolean = false;
+  private spec: boolean = false;
+  private objectTokens: Required<ObjectTokenOptions> | null = null;
+  // As given, saved in snapshots
+  private options: MarkupTokenizerOptions;
+  private whitespace: WhitespaceMode = "preserve";
+  // Template delimiters as [opener, closer] bytes
+  private templates: [Uint8Array, Uint8Array][] | null = null;
+
+  private tagLimit: Required<Limit> | null = null;
+  private textLimit: Required<Limit> | null = null;
+  private attributeLimit: Required<Limit> | null = null;
+
+  // Parse errors found so far, for the caller to report and clear
+  diagnostics: Diagnostic[] = [];
+
+  // Input bytes written, before they are transcoded
+  private _consumed: number = 0;
+
+  // Last bytes of the previous chunks, for markers starting in one of them
+  private _tailSize: number = CDATA_START.length;
+  private _tail: Uint8Array = new Uint8Array(0);
+  private _tailLength: number = 0;
+
+  // '<' ending the previous chunk, a tag start or text depending on the next byte
+  private _lt: Uint8Array | null = null;
+
+  // Input offsets of the current buffer, of the pending tag and of its open quote
+  private _bufStart: number = 0;
+  private _written: number = 0;
+  private _tagStart: number = 0;
+  private _quoteStart: number = 0;
+
+  // Truncated token: length of its kept head and extent of the dropped bytes
+  private _kept: number = 0;
+  private _dropped: Span | null = null;
+  // Tag past a limit with the "split" action, emitted as text
+  private _downgraded: boolean = false;
+  // Truncated tag, classified before its bytes were dropped
+  private _cut: TagCut | null = null;
+  // XML mode: the pending tag is a doctype, whose internal subset may hold '>'
+  private _doctype: boolean = false;
+  private _attributes: number = 0;
+  private _inName: boolean = false;
+  // Input offset of the first attribute past the limit, -1 if none
+  private _attributeCut: number = -1;
+
+  // Spec mode: bytes read after '<!', and whether they may still be '--', 'doctype' or '[CDATA['
+  private _declared: number = 0;
+  private _maybeComment: boolean = false;
+  private _maybeDoctype: boolean = false;
+  private _maybeCdata: boolean = false;
+
+  // Tag being emitted, for object tokens
+  private _name: string | null = null;
+  private _selfClosing: boolean = false;
+  private _names: Map<string, string> = new Map();
+
+  // Open pre, textarea and listing elements, whose whitespace is kept
+  private _preformatted: number = 0;
+
+  // Templates: bytes ending an opener, and length of the longest opener starting with '<'
+  private _templateEnds: Uint8Array = new Uint8Array(0);
+  private _templateReach: number = 0;
+  // Closer of the template being skipped inside a tag, and input offset of
+  // the current template's content, where its closer may start
+  private _tagTemplate: Uint8Array | null = null;
+  private _templateContent: number = 0;
+  // '<' ending a chunk with what follows it, which may start a template opener
+  private _held: Uint8Array | null = null;
+  private _ending: boolean = false;
+
+  // Location of the next byte not yet covered by a token
+  private _position: number = 0;
+  private _line: number = 1;
+  private _column: number = 1;
+
+  constructor(
+    options: MarkupTokenizerOptions,
+    private emit: (token: Token<Uint8Array> | ObjectToken<Uint8Array>) => void,
+    // Node passes Buffer helpers so that tokens are Buffers
+    private bytes: Bytes = webBytes
+  ) {
+    this.options = options;
+    this.ignoreText = options.ignoreText ?? false;
+    this.positions = options.positions ?? false;
+    this.splitComments = options.splitComments ?? false;
+    this.xml = options.mode === "xml";
+    this.decode = options.decodeEntities ?? false;
+    this.strict = options.strict ?? false;
+    this.spec = !this.xml && (options.spec ?? false);
+    this.whitespace = options.whitespace ?? "preserve";
+    this._skipText = this.ignoreText;
+    if (options.objectTokens) {
+      this.objectTokens = {
+        attributes: false,
+        text: false,
+        ...(options.objectTokens === true ? {} : options.objectTokens),
+      };
+    }
+    this.tagLimit = resolveLimit(options.maxTagLength, "maxTagLength");
+    this.textLimit = resolveLimit(options.maxTextLength, "maxTextLength");
+    this.attributeLimit = resolveLimit(options.maxAttributes, "maxAttributes");
+    if (!this.xml) {
+      for (const name of options.rawTextElements ?? RAW_TEXT_ELEMENTS) {
+        const tag = name.toLowerCase();
+        const end = tag === "plaintext" ? END_PLAINTEXT : encode(`</${tag}`);
+        this.rawElements.set(tag, end);
+        this._tailSize = Math.max(this._tailSize, end.length);
+      }
+      for (const name of options.rcdataElements ?? RCDATA_ELEMENTS) {
+        const tag = name.toLowerCase();
+        const end = encode(`</${tag}`);
+        this.rawElements.set(tag, end);
+        this.rcdata.add(end);
+        this._tailSize = Math.max(this._tailSize, end.length);
+      }
+    }
+    if (options.templateDelimiters && options.templateDelimiters.length > 0) {
+      this._templates(options.templateDelimiters);
+    }
+    this._tail = new Uint8Array(this._tailSize);
+    this.transcoder = new Transcoder(
+      options.encoding ?? "auto",
+      (buf) => this._write(buf),
+      bytes
+    );
+  }
+
+  /**
+   * Encoding of the input, null until it has been detected.
+   */
+  get encoding(): string | null {
+    return this.transcoder.encoding;
+  }
+
+  write(buf: Uint8Array): void {
+    this._consumed += buf.length;
+    this.transcoder.write(buf);
+  }
+
+  /**
+   * State between two writes, JSON-serializable. A tokenizer restored from
+   * it emits the tokens of the input following the `consumed` first bytes.
+   */
+  snapshot(): TokenizerSnapshot {
+    const markers = this._markers();
+    const base64 = (buf: Uint8Array | null) =>
+      buf === null ? null : toBase64(buf);
+    return {
+      version: SNAPSHOT_VERSION,
+      consumed: this._consumed,
+      options: this.options,
+      transcoder: this.transcoder.snapshot(),
+      tokenizer: {
+        state: this.state,
+        tagState: this.tagState,
+        quoteState: this.quoteState,
+        raw: this.raw === null ? -1 : markers.indexOf(this.raw),
+        rawToken: this.rawToken,
+        buffers: toBase64(this.bytes.concat(this.buffers)),
+        tail: toBase64(this._tail.subarray(0, this._tailLength)),
+        lt: base64(this._lt),
+        held: base64(this._held),
+        written: this._written,
+        tagStart: this._tagStart,
+        quoteStart: this._quoteStart,
+        kept: this._kept,
+        dropped: this._dropped,
+        downgraded: this._downgraded,
+        cut: this._cut,
+        doctype: this._doctype,
+        attributes: this._attributes,
+        inName: this._inName,
+        attributeCut: this._attributeCut,
+        declared: this._declared,
+        maybeComment: this._maybeComment,
+        maybeDoctype: this._maybeDoctype,
+        maybeCdata: this._maybeCdata,
+        preformatted: this._preformatted,
+        tagTemplate:
+          this._tagTemplate === null ? -1 : markers.indexOf(this._tagTemplate),
+        templateContent: this._templateContent,
+        position: this._position,
+        line: this._line,
+        column: this._column,
+      },
+    };
+  }
+
+  /**
+   * Restore a snapshot of a tokenizer created with the same options, before
+   * anything is written.
+   */
+  restore(snapshot: TokenizerSnapshot): void {
+    if (snapshot.version !== SNAPSHOT_VERSION) {
+      throw new TypeError(`Unsupported snapshot version ${snapshot.version}`);
+    }
+    const markers = this._markers();
+    const state = snapshot.tokenizer;
+    // Restored bytes are Buffers in Node, like the input chunks
+    const bytes = (text: string) => this.bytes.concat([fromBase64(text)]);
+    const buffers = bytes(state.buffers);
+    const tail = fromBase64(state.tail);
+
+    this.transcoder.restore(snapshot.transcoder);
+    this._consumed = snapshot.consumed;
+    this.state = state.state;
+    this.tagState = state.tagState;
+    this.quoteState = state.quoteState;
+    this.raw = state.raw === -1 ? null : markers[state.raw];
+    this.rawToken = state.rawToken;
+    this.buffers = buffers.length > 0 ? [buffers] : [];
+    this._tail.set(tail);
+    this._tailLength = tail.length;
+    this._lt = state.lt === null ? null : bytes(state.lt);
+    this._held = state.held === null ? null : bytes(state.held);
+    this._written = state.written;
+    this._tagStart = state.tagStart;
+    this._quoteStart = state.quoteStart;
+    this._kept = state.kept;
+    this._dropped = state.dropped;
+    this._downgraded = state.downgraded;
+    this._cut = state.cut;
+    this._doctype = state.doctype;
+    this._attributes = state.attributes;
+    this._inName = state.inName;
+    this._attributeCut = state.attributeCut;
+    this._declared = state.declared;
+    this._maybeComment = state.maybeComment;
+    this._maybeDoctype = state.maybeDoctype;
+    this._maybeCdata = state.maybeCdata;
+    this._preformatted = state.preformatted;
+    this._tagTemplate = state.tagTemplate === -1 ? null : markers[state.tagTemplate];
+    this._templateContent = state.templateContent;
+    this._position = state.position;
+    this._line = state.line;
+    this._column = state.column;
+  }
+
+  // End markers compared by identity, in an order that only depends on the options
+  private _markers(): Uint8Array[] {
+    const markers = [
+      COMMENT_END,
+      CDATA_END,
+      PI_END,
+      BOGUS_COMMENT_END,
+      END_PLAINTEXT,
+      ...this.rawElements.values(),
+    ];
+    for (const [, closer] of this.templates ?? []) markers.push(closer);
+    return markers;
+  }
+
+  private _templates(delimiters: [string, string][]): void {
+    const ends = new Uint8Array(256);
+    this.templates = delimiters.map(([open, close]) => {
+      if (!open || !close) {
+        throw new TypeError("templateDelimiters must be pairs of non-empty strings");
+      }
+      const opener = encode(open);
+      const closer = encode(close);
+      // Markers are compared case-insensitively
+      const last = opener[opener.length - 1];
+      ends[last] = ends[lower(last)] = ends[upper(last)] = 1;
+      if (opener[0] === LT) {
+        this._templateReach = Math.max(this._templateReach, opener.length);
+      }
+      this._tailSize = Math.max(this._tailSize, opener.length, closer.length);
+      return [opener, closer];
+    });
+    this._templateEnds = ends;
+    this._skipText = false;
+  }
+
+  end(): void {
+    this.transcoder.end();
+
+    if (this._held) {
+      // The input ends before telling whether the held '<' opens a template
+      const held = this._held;
+      this._held = null;
+      this._ending = true;
+      this._written -= held.length;
+      this._write(held);
+    }
+
+    if (this._lt) {
+      this._report("eof-before-tag-name", this._written - 1);
+      if (!this._skipText) this.buffers.push(this._lt);
+      else this._skip(this._lt);
+      this._lt = null;
+    } else if (this.state === OPEN_STATE && this._downgraded) {
+      this.state = TEXT_STATE;
+      this._downgraded = false;
+    } else if (this.state === OPEN_STATE && this.tagState === END_TAG_OPEN_STATE) {
+      // `</` is kept as text
+      this._report("eof-before-tag-name", this._tagStart);
+      this.state = TEXT_STATE;
+    } else if (this.state === OPEN_STATE && this.tagState === DECLARATION_STATE) {
+      // Bogus comment ending with the input
+      this._report("incorrectly-opened-comment", this._tagStart);
+      this.state = TEXT_STATE;
+      this.rawToken = "comment";
+    } else if (this.state === OPEN_STATE) {
+      // The pending tag is dropped
+      if (this.quoteState !== NO_QUOTE) {
+        this._report("unclosed-quote", this._quoteStart);
+      } else {
+        this._report("eof-in-tag", this._tagStart);
+      }
+    } else if (this.raw === COMMENT_END) {
+      this._report("eof-in-comment", this._tagStart);
+    } else if (this.raw === BOGUS_COMMENT_END) {
+      // Ends with the input, without an error
+    } else if (this.raw === CDATA_END) {
+      this._report("eof-in-cdata", this._tagStart);
+    } else if (this.raw === PI_END) {
+      this._report("eof-in-processing-instruction", this._tagStart);
+    } else if (this.rawToken === "template") {
+      this._report("eof-in-template", this._tagStart);
+    } else if (this.raw && this.raw !== END_PLAINTEXT) {
+      this._report("eof-in-raw-text", this._tagStart, this._rawName());
+    }
+
+    // Unterminated comments, CDATA sections, processing instructions and
+    // templates are emitted as they are
+    if (this.rawToken) this._pushState(this.rawToken);
+    if (this.state === TEXT_STATE && !this._skipText) this._pushState("text");
+  }
+
+  private _write(buf: Uint8Array): void {
+    if (buf.length === 0) return;
+    // A held '<' is joined with the first bytes of this chunk, enough to tell
+    // whether it opens a template. They may end with another '<' to hold
+    while (this._held && buf.length > 0) {
+      const held = this._held;
+      const head = Math.min(this._templateReach - held.length, buf.length);
+      this._held = null;
+      this._written -= held.length;
+      this._write(this.bytes.concat([held, buf.subarray(0, head)]));
+      buf = buf.subarray(head);
+    }
+    let offset = 0;
+    const bufLen = buf.length;
+    if (bufLen === 0) return;
+    this._bufStart = this._written;
+    this._written += bufLen;
+
+    // Chunks are never joined: the previous chunk only leaves its '<' behind
+    if (this._lt) {
+      const lt = this._lt;
+      this._lt = null;
+      if (!this._opensTag(buf[0], this._bufStart - 1)) {
+        if (!this._skipText) this.buffers.push(lt);
+        else this._skip(lt);
+      } else {
+        if (!this._skipText) this._pushState("text");
+        this._startTag(this._bufStart - 1);
+        this.state = OPEN_STATE;
+        this.tagState = this.spec ? TAG_OPEN_STATE : TAG_NAME_STATE;
+        this.buffers.push(lt);
+      }
+    }
+
+    // Main parsing loop - text and raw text jump to the next candidate byte
+    for (let i = 0; i < bufLen; i++) {
+      // Raw mode handling (comments, CDATA, script, style, title)
+      if (this.raw) {
+        if (this.raw === END_PLAINTEXT) break;
+        const end = this._find(
+          buf,
+          i,
+          this.raw,
+          this.rawToken === "template" ? this._templateContent : 0
+        );
+        if (end === -1) break;
+        i = end;
+        this.buffers.push(buf.subarray(offset, i + 1));
+        const section = this._take();
+        if (this.rawToken) {
+          this.state = TEXT_STATE;
+          this._output(this.rawToken, section);
+          this.raw = null;
+          this.rawToken = null;
+          offset = i + 1;
+          continue;
+        }
+
+        const k = section.length - this.raw.length;
+        const text = section.subarray(0, k);
+        const marker = section.subarray(k);
+        if (!this.ignoreText) {
+          this._output("text", text);
+        } else {
+          this._skip(text);
+        }
+
+        if (this.raw === COMMENT_END) {
+          this.state = TEXT_STATE;
+          this._emit("close", marker);
+        } else {
+          // For script/style/title tags, we need to continue parsing the closing tag
+          this._startTag(this._bufStart + i + 1 - marker.length);
+          this.state = OPEN_STATE;
+          this.tagState = TAG_NAME_STATE;
+          this.buffers = [marker];
+        }
+
+        this.raw = null;
+        offset = i + 1;
+      }
+      // Most common case first: text parsing
+      else if (this.state === TEXT_STATE) {
+        i = this.templates ? this._nextText(buf, i) : buf.indexOf(LT, i);
+        if (i === -1) break;
+        if (buf[i] !== LT) {
+          offset = this._startTemplate(buf, offset, i, this._opener(buf, i));
+          continue;
+        }
+        if (this._templateReach > 0) {
+          const template = this._openerAt(buf, i);
+          if (template === UNDECIDED) {
+            if (i > offset) this.buffers.push(buf.subarray(offset, i));
+            this._held = buf.subarray(i);
+            offset = bufLen;
+            break;
+          }
+          if (template !== -1) {
+            const end = i + this._templateOpener(template).length - 1;
+            offset = this._startTemplate(buf, offset, end, template);
+            i = end;
+            continue;
+          }
+        }
+        if (i === bufLen - 1) {
+          // Need more data: keep the text, and the '<' for the next chunk
+          if (i > offset) {
+            if (!this._skipText) {
+              this.buffers.push(buf.subarray(offset, i));
+            } else {
+              this._skip(buf.subarray(offset, i));
+            }
+          }
+          this._lt = buf.subarray(i);
+          offset = bufLen;
+          break;
+        }
+        if (this._opensTag(buf[i + 1], this._bufStart + i)) {
+          if (i > offset) {
+            if (!this._skipText) {
+              this.buffers.push(buf.subarray(offset, i));
+            } else {
+              this._skip(buf.subarray(offset, i));
+            }
+          }
+          offset = i;
+          this._startTag(this._bufStart + i);
+          this.state = OPEN_STATE;
+          this.tagState = this.spec ? TAG_OPEN_STATE : TAG_NAME_STATE;
+          if (!this._skipText) {
+            this._pushState("text");
+          }
+        }
+      }
+      // Template inside a tag: the tag goes on after its closer
+      else if (this._tagTemplate) {
+        i = this._find(buf, i, this._tagTemplate, this._templateContent);
+        if (i === -1) break;
+        this._tagTemplate = null;
+      } else if (
+        this._templateEnds.length > 0 &&
+        this._templateEnds[buf[i]] === 1 &&
+        this._tagTemplateAt(buf, i)
+      ) {
+        continue;
+      }
+      // A '<' in a tag warns unless it opens a template, which the next chunk tells
+      else if (
+        buf[i] === LT &&
+        this._templateReach > 0 &&
+        this.tagState !== BEFORE_ATTRIBUTE_VALUE_STATE &&
+        this.tagState <= ATTRIBUTE_VALUE_STATE &&
+        this.quoteState === NO_QUOTE &&
+        this._openerAt(buf, i) === UNDECIDED
+      ) {
+        if (i > offset) this.buffers.push(buf.subarray(offset, i));
+        this._held = buf.subarray(i);
+        offset = bufLen;
+        break;
+      }
+      // Tag parsing state machine
+      else if (this.tagState === TAG_NAME_STATE) {
+        const b = buf[i];
+        // Comments, CDATA and processing instructions are found on their last byte
+        if (
+          b === DASH &&
+          !this.spec &&
+          this._endsWith(buf, i, COMMENT_START)
+        ) {
+          offset = this._startComment(buf, offset, i);
+        } else if (
+          b === LBRACKET &&
+          !this.spec &&
+          this._endsWith(buf, i, CDATA_START)
+        ) {
+          this.buffers.push(buf.subarray(offset, i + 1));
+          offset = i + 1;
+          this.state = TEXT_STATE;
+          this.raw = CDATA_END;
+          this.rawToken = "cdata";
+        }
+        // XML processing instructions end with '?>' and may contain '>'
+        else if (
+          this.xml &&
+          b === QUESTION &&
+          this._endsWith(buf, i, PI_START)
+        ) {
+          this.buffers.push(buf.subarray(offset, i + 1));
+          offset = i + 1;
+          this.state = TEXT_STATE;
+          this.raw = PI_END;
+          this.rawToken = "pi";
+        }
+        // Inline whitespace check
+        else if (b === SPACE || b === TAB || b === LF || b === FF || b === CR) {
+          this.tagState = ATTRIBUTE_NAME_STATE;
+          this._inName = false;
+          this._doctype = this.xml && this._endsWith(buf, i - 1, DOCTYPE_START);
+        } else if (b === GT) {
+          this._handleTagClose(buf, offset, i);
+          offset = i + 1;
+        } else if (b === LT && !this.spec && !this._templateLt(buf, i)) {
+          this._report("less-than-in-tag", this._bufStart + i);
+        }
+      }
+      // Attribute name state
+      else if (this.tagState === ATTRIBUTE_NAME_STATE) {
+        const b = buf[i];
+        if (b === EQUAL) {
+          this.tagState = BEFORE_ATTRIBUTE_VALUE_STATE;
+        } else if (b === LBRACKET && this._doctype) {
+          this.tagState = INTERNAL_SUBSET_STATE;
+        } else if (b === GT) {
+          this._handleTagClose(buf, offset, i);
+          offset = i + 1;
+        } else if (b === LT && !this._templateLt(buf, i)) {
+          this._report("less-than-in-tag", this._bufStart + i);
+        } else if (this.attributeLimit !== null) {
+          this._countAttribute(b, this._bufStart + i);
+        }
+      }
+      // Markup declarations of an XML internal subset may hold '>', and
+      // their quoted literals, comments and processing instructions ']'
+      else if (this.tagState === INTERNAL_SUBSET_STATE) {
+        const b = buf[i];
+        if (this.quoteState !== NO_QUOTE) {
+          const quote = this.quoteState === DOUBLE_QUOTE ? DQUOTE : SQUOTE;
+          if (b === quote) this.quoteState = NO_QUOTE;
+        } else if (b === DQUOTE || b === SQUOTE) {
+          this._quoteStart = this._bufStart + i;
+          this.quoteState = b === DQUOTE ? DOUBLE_QUOTE : SINGLE_QUOTE;
+        } else if (b === RBRACKET) {
+          this.tagState = ATTRIBUTE_NAME_STATE;
+          this._inName = false;
+        } else if (b === DASH && this._endsWith(buf, i, COMMENT_START)) {
+          // Skipped up to their end like templates
+          this._tagTemplate = COMMENT_END;
+          this._templateContent = this._bufStart + i + 1;
+        } else if (b === QUESTION && this._endsWith(buf, i, PI_START)) {
+          this._tagTemplate = PI_END;
+          this._templateContent = this._bufStart + i + 1;
+        }
+      }
+      // Before attribute value state
+      else if (this.tagState === BEFORE_ATTRIBUTE_VALUE_STATE) {
+        const b = buf[i];
+        // Skip whitespace
+        if (b !== SPACE && b !== TAB && b !== LF && b !== FF && b !== CR) {
+          if (b === GT) {
+            this._handleTagClose(buf, offset, i);
+            offset = i + 1;
+          } else {
+            this.tagState = ATTRIBUTE_VALUE_STATE;
+            this._quoteStart = this._bufStart + i;
+            this.quoteState =
+              b === DQUOTE
+                ? DOUBLE_QUOTE
+                : b === SQUOTE
+                ? SINGLE_QUOTE
+                : NO_QUOTE;
+          }
+        }
+      }
+      // Spec mode: what follows '<', '</' or '<!'
+      else if (this.tagState >= TAG_OPEN_STATE) {
+        offset = this._markupOpen(buf, offset, i);
+      }
+      // Attribute value state
+      else if (this.quoteState === NO_QUOTE) {
+        const b = buf[i];
+        if (b === SPACE || b === TAB || b === LF || b === FF || b === CR) {
+          this.tagState = ATTRIBUTE_NAME_STATE;
+          this._inName = false;
+        } else if (b === GT) {
+          this._handleTagClose(buf, offset, i);
+          offset = i + 1;
+        } else if (b === LT && !this._templateLt(buf, i)) {
+          this._report("less-than-in-tag", this._bufStart + i);
+        }
+      }
+      // Quoted value: jump to the closing quote, or look for templates on the way
+      else {
+        const quote = this.quoteState === DOUBLE_QUOTE ? DQUOTE : SQUOTE;
+        if (!this.templates) {
+          i = buf.indexOf(quote, i);
+          if (i === -1) break;
+        } else if (buf[i] !== quote) {
+          continue;
+        }
+        this.quoteState = NO_QUOTE;
+        this.tagState = ATTRIBUTE_NAME_STATE;
+        this._inName = false;
+      }
+    }
+    this._keepTail(
+      this._held ? buf.subarray(0, bufLen - this._held.length) : buf
+    );
+
+    if (offset < bufLen) {
+      // Pending tags and raw content are always kept, even when text is ignored
+      if (
+        !this._skipText ||
+        this.state !== TEXT_STATE ||
+        (this.raw && this.raw !== END_PLAINTEXT)
+      ) {
+        this.buffers.push(buf.subarray(offset));
+      } else {
+        this._skip(buf.subarray(offset));
+      }
+    }
+
+    if (
+      this.buffers.length > 0 &&
+      (this.tagLimit !== null || this.textLimit !== null || this._downgraded)
+    ) {
+      this._checkPending();
+    }
+  }
+
+  private _handleTagClose(buf: Uint8Array, offset: number, i: number): void {
+    // A slash right before '>' is part of the value in `<a href=/x/>`
+    const unquoted =
+      this.tagState === ATTRIBUTE_VALUE_STATE && this.quoteState === NO_QUOTE;
+    this.buffers.push(buf.subarray(offset, i + 1));
+    this.state = TEXT_STATE;
+    this.tagState = 0;
+    this.quoteState = NO_QUOTE;
+
+    // Tags split in one chunk are text too, as if split while pending
+    const limit = this.tagLimit;
+    if (limit?.action === "split" && this._pending() > limit.max) {
+      this._downgraded = true;
+    }
+    if (this._downgraded) {
+      this._downgraded = false;
+      const rest = this._take();
+      if (this.ignoreText) this._skip(rest);
+      else this._split("text", rest, this._downgradedMax() ?? rest.length);
+      return;
+    }
+
+    const first = this._cut ? this._cut.first : this._getChar(1);
+    if (first === SLASH) {
+      const [name, next] = this._getTag(2);
+      if (name === "" && next === GT) {
+        this._report("missing-end-tag-name", this._tagStart);
+      }
+      if (this.objectTokens || this._preformatted > 0) {
+        this._name = name;
+        if (this._preformatted > 0 && PREFORMATTED_ELEMENTS.has(this._name)) {
+          this._preformatted--;
+        }
+      }
+      this._pushState("close");
+    } else if (first === QUESTION) {
+      this._pushState("pi");
+    } else {
+      const [tag] = this._getTag();
+      // `<!DOCTYPEhtml>` is a doctype missing the space before its name
+      if (tag.toLowerCase().startsWith("!doctype")) {
+        return this._pushState("doctype");
+      }
+      // Byte right before the closing '>'
+      const selfClosing = this._byteBefore(buf, i, 1) === SLASH && !unquoted;
+      this._name = tag;
+      this._selfClosing = selfClosing;
+      if (this.xml) return this._pushState(selfClosing ? "selfclose" : "open");
+      if (this.whitespace !== "preserve" && PREFORMATTED_ELEMENTS.has(tag)) {
+        this._preformatted++;
+      }
+      const end = this.rawElements.get(tag);
+      if (end) this.raw = end;
+      this._pushState("open");
+    }
+  }
+
+  // Whether '<' followed by `next` starts markup, or is text
+  private _opensTag(next: number, offset: number): boolean {
+    if (!this.spec) return !isWhitespace(next);
+    if (isAsciiAlpha(next) || next === SLASH || next === BANG || next === QUESTION) {
+      return true;
+    }
+    this._report("invalid-first-character-of-tag-name", offset);
+    return false;
+  }
+
+  /**
+   * Spec mode: the byte after '<' picks a start tag, an end tag, a
+   * declaration or a bogus comment. Returns the new start of pending bytes.
+   */
+  private _markupOpen(buf: Uint8Array, offset: number, i: number): number {
+    const b = buf[i];
+    if (this.tagState === TAG_OPEN_STATE) {
+      if (b === SLASH) {
+        this.tagState = END_TAG_OPEN_STATE;
+      } else if (b === BANG) {
+        this.tagState = DECLARATION_STATE;
+        this._declared = 0;
+        this._maybeComment = true;
+        this._maybeDoctype = true;
+        this._maybeCdata = true;
+      } else if (b === QUESTION) {
+        this._report("unexpected-question-mark-instead-of-tag-name", this._tagStart);
+        return this._bogusComment(buf, offset, i);
+      } else {
+        this.tagState = TAG_NAME_STATE;
+      }
+      return offset;
+    }
+
+    if (this.tagState === END_TAG_OPEN_STATE) {
+      if (isAsciiAlpha(b)) {
+        this.tagState = TAG_NAME_STATE;
+        return offset;
+      }
+      if (b === GT) {
+        // `</>` is dropped
+        this._report("missing-end-tag-name", this._tagStart);
+        this.buffers.push(buf.subarray(offset, i + 1));
+        this._skip(this._take());
+        this.state = TEXT_STATE;
+        this.tagState = 0;
+        return i + 1;
+      }
+      this._report("invalid-first-character-of-tag-name", this._bufStart + i);
+      return this._bogusComment(buf, offset, i);
+    }
+
+    // Markup declaration open: `<!--`, `<!DOCTYPE` or a bogus comment.
+    // CDATA sections are only allowed in SVG and MathML, unknown to a tokenizer
+    const k = this._declared++;
+    this._maybeComment &&= k < 2 && b === DASH;
+    this._maybeDoctype &&= k < DOCTYPE.length && lower(b) === DOCTYPE[k];
+    this._maybeCdata &&= k < CDATA.length && b === CDATA[k];
+    if (this._maybeComment) {
+      return k === 1 ? this._startComment(buf, offset, i) : offset;
+    }
+    if (this._maybeDoctype) {
+      if (k === DOCTYPE.length - 1) this.tagState = TAG_NAME_STATE;
+      return offset;
+    }
+    if (this._maybeCdata) {
+      if (k < CDATA.length - 1) return offset;
+      this._report("cdata-in-html-content", this._tagStart);
+      return this._bogusComment(buf, offset, i);
+    }
+    this._report("incorrectly-opened-comment", this._tagStart);
+    return this._bogusComment(buf, offset, i);
+  }
+
+  // `<!--` ends at `buf[i]`
+  private _startComment(buf: Uint8Array, offset: number, i: number): number {
+    this.buffers.push(buf.subarray(offset, i + 1));
+    this.state = TEXT_STATE;
+    this.tagState = 0;
+    this.raw = COMMENT_END;
+    if (this.splitComments) this._pushState("open");
+    else this.rawToken = "comment";
+    return i + 1;
+  }
+
+  // Spec mode: the pending bytes up to `buf[i]` start a comment ending at the next '>'
+  private _bogusComment(buf: Uint8Array, offset: number, i: number): number {
+    this.state = TEXT_STATE;
+    this.tagState = 0;
+    this.raw = BOGUS_COMMENT_END;
+    this.rawToken = "comment";
+    this.buffers.push(buf.subarray(offset, i + 1));
+    if (buf[i] === GT) {
+      this._pushState("comment");
+      this.raw = null;
+      this.rawToken = null;
+    }
+    return i + 1;
+  }
+
+  // Index of the next '<' in text, or of the last byte of a template opener, or -1
+  private _nextText(buf: Uint8Array, from: number): number {
+    const ends = this._templateEnds;
+    for (let i = from; i < buf.length; i++) {
+      const b = buf[i];
+      if (b === LT || (ends[b] === 1 && this._opener(buf, i) !== -1)) return i;
+    }
+    return -1;
+  }
+
+  // Index of the template whose opener ends at `buf[i]`, or -1
+  private _opener(buf: Uint8Array, i: number): number {
+    const templates = this.templates as [Uint8Array, Uint8Array][];
+    for (let t = 0; t < templates.length; t++) {
+      if (this._endsWith(buf, i, templates[t][0])) return t;
+    }
+    return -1;
+  }
+
+  /**
+   * Index of the template whose opener starts at the '<' in `buf[i]`, -1 if
+   * none does, or UNDECIDED if the chunk ends first.
+   */
+  private _openerAt(buf: Uint8Array, i: number): number {
+    const templates = this.templates as [Uint8Array, Uint8Array][];
+    let undecided = false;
+    for (let t = 0; t < templates.length; t++) {
+      const opener = templates[t][0];
+      if (opener[0] !== LT) continue;
+      let m = 1;
+      while (
+        m < opener.length &&
+        i + m < buf.length &&
+        lower(buf[i + m]) === lower(opener[m])
+      ) {
+        m++;
+      }
+      if (m === opener.length) return t;
+      if (i + m === buf.length) undecided = true;
+    }
+    return undecided && !this._ending ? UNDECIDED : -1;
+  }
+
+  private _templateOpener(template: number): Uint8Array {
+    return (this.templates as [Uint8Array, Uint8Array][])[template][0];
+  }
+
+  // The opener of `template` ends at `buf[i]` in text: the pending text is
+  // emitted, and the template read like raw text up to its closer
+  private _startTemplate(
+    buf: Uint8Array,
+    offset: number,
+    i: number,
+    template: number
+  ): number {
+    const [opener, closer] = (this.templates as [Uint8Array, Uint8Array][])[
+      template
+    ];
+    this.buffers.push(buf.subarray(offset, i + 1));
+    // The opener may start in a previous chunk
+    const pending = this._take();
+    const start = Math.max(pending.length - opener.length, 0);
+    if (start > 0) {
+      this.buffers.push(pending.subarray(0, start));
+      this._pushState("text");
+    }
+    this.buffers.push(pending.subarray(start));
+    this._tagStart = this._bufStart + i + 1 - opener.length;
+    this._templateContent = this._bufStart + i + 1;
+    this.raw = closer;
+    this.rawToken = "template";
+    return i + 1;
+  }
+
+  // Whether a template opener ends at `buf[i]` inside a tag, skipped up to its closer
+  private _tagTemplateAt(buf: Uint8Array, i: number): boolean {
+    const template = this._opener(buf, i);
+    if (template === -1) return false;
+    this._tagTemplate = (this.templates as [Uint8Array, Uint8Array][])[
+      template
+    ][1];
+    this._templateContent = this._bufStart + i + 1;
+    return true;
+  }
+
+  // Whether the '<' in `buf[i]`, inside a tag, starts a template opener
+  private _templateLt(buf: Uint8Array, i: number): boolean {
+    return this._templateReach > 0 && this._openerAt(buf, i) !== -1;
+  }
+
+  private _report(code: DiagnosticCode, offset: number, name?: string): void {
+    const diagnostic = createDiagnostic(code, this._input(offset), name);
+    if (this.strict) throw new MarkupTokenizerError(diagnostic);
+    this.diagnostics.push(diagnostic);
+  }
+
+  // Name of the raw-text or RCDATA element being read
+  private _rawName(): string | undefined {
+    for (const [name, end] of this.rawElements) {
+      if (end === this.raw) return name;
+    }
+  }
+
+  private _startTag(start: number): void {
+    this._tagStart = start;
+    this._attributes = 0;
+    this._inName = false;
+    this._attributeCut = -1;
+    this._cut = null;
+    this._doctype = false;
+  }
+
+  private _countAttribute(b: number, offset: number): void {
+    if (isWhitespace(b) || b === SLASH) {
+      this._inName = false;
+      return;
+    }
+    if (this._inName) return;
+    this._inName = true;
+    const limit = this.attributeLimit as Required<Limit>;
+    if (++this._attributes <= limit.max) return;
+    if (this._attributeCut !== -1 || this._downgraded) return;
+    if (limit.action === "error") {
+      throw this._limitError("too-many-attributes", offset);
+    }
+    if (limit.action === "truncate") this._attributeCut = offset;
+    else this._downgraded = true;
+  }
+
+  private _limitError(
+    code: DiagnosticCode,
+    offset: number
+  ): MarkupTokenizerError {
+    return new MarkupTokenizerError(createDiagnostic(code, this._input(offset)));
+  }
+
+  // Input offset of a byte of the UTF-8 output
+  private _input(offset: number): number {
+    return this.transcoder.inputOffset(offset);
+  }
+
+  // Only the start of a pending tag or section may still be reported, and
+  // the offsets from the next token on
+  private _release(): void {
+    const pending =
+      this.state === OPEN_STATE || (this.raw !== null && this.raw !== END_PLAINTEXT);
+    const start = pending ? Math.min(this._tagStart, this._position) : 0;
+    this.transcoder.forget(start, this._position);
+  }
+
+  // Size of the text pieces of a tag over a limit: `maxAttributes` counts no
+  // bytes, so tags past it are split by the text limit without a tag limit
+  private _downgradedMax(): number | undefined {
+    return (this.tagLimit ?? this.textLimit)?.max;
+  }
+
+  private _pending(): number {
+    let pending = 0;
+    for (let j = 0; j < this.buffers.length; j++) {
+      pending += this.buffers[j].length;
+    }
+    return pending;
+  }
+
+  // Whether the pending '<' may still start a comment, a CDATA section or a
+  // processing instruction, which are no tags
+  private _mayOpenSection(pending: number): boolean {
+    const markers = this.xml
+      ? [COMMENT_START, CDATA_START, PI_START]
+      : [COMMENT_START, CDATA_START];
+    search: for (const marker of markers) {
+      if (pending >= marker.length) continue;
+      for (let j = 0; j < pending; j++) {
+        if (lower(this._getChar(j) as number) !== lower(marker[j])) {
+          continue search;
+        }
+      }
+      return true;
+    }
+    return false;
+  }
+
+  // Keep the bytes buffered for an unfinished token within the limits
+  private _checkPending(): void {
+    const tag = this.state === OPEN_STATE;
+    const limit = tag ? this.tagLimit : this.textLimit;
+    const pending = this._pending();
+    if (!this._downgraded && (limit === null || pending <= limit.max)) return;
+    // The few bytes telling what the '<' starts are kept past the limit
+    if (
+      tag &&
+      !this._downgraded &&
+      (this.tagState >= TAG_OPEN_STATE || this._mayOpenSection(pending))
+    ) {
+      return;
+    }
+    if (!this._downgraded && limit?.action === "error") {
+      const code = tag ? "tag-too-long" : "text-too-long";
+      throw this._limitError(code, this._position);
+    }
+
+    const buf = this.bytes.concat(this.buffers);
+    if (this._downgraded || limit?.action === "split") {
+      if (tag) this._downgraded = true;
+      // Bytes that may start the end marker of a raw section stay buffered
+      const keep = this.raw ? Math.max(this.raw.length - 1, 0) : 0;
+      const size = (tag ? this._downgradedMax() : limit?.max) ?? buf.length;
+      const type = tag ? "text" : this.rawToken ?? "text";
+      let start = 0;
+      while (buf.length - start >= size) {
+        const end = charBoundary(buf, start, start + size);
+        if (buf.length - end < keep) break;
+        if (type === "text" && this.ignoreText) {
+          this._skip(buf.subarray(start, end));
+        } else {
+          this._emitPiece(type, buf.subarray(start, end));
+        }
+        start = end;
+      }
+      this.buffers = start < buf.length ? [buf.subarray(start)] : [];
+      return;
+    }
+
+    // Truncate: what the tag is must not depend on the bytes dropped
+    if (tag) this._readCut();
+    // Keep room for the end marker or the closing '>', and the last bytes
+    // which may start the end marker or "/>"
+    const max = (limit as Required<Limit>).max;
+    const reserve = tag ? 1 : this.rawToken && this.raw ? this.raw.length : 0;
+    const keep = tag ? 1 : this.raw ? Math.max(this.raw.length - 1, 0) : 0;
+    const head = this._dropped
+      ? this._kept
+      : charBoundary(buf, 0, Math.max(max - reserve, 0));
+    const tail = Math.max(buf.length - keep, head);
+    if (this._cut) this._cut.from = head + buf.length - tail;
+    if (tail === head) return;
+    this._dropped = measure(
+      buf.subarray(head, tail),
+      this._dropped ?? undefined
+    );
+    this._kept = head;
+    this.buffers = [
+      this.bytes.concat([buf.subarray(0, head), buf.subarray(tail)]),
+    ];
+    // Offsets of the dropped bytes are never reported
+    const from = this._position + head;
+    this.transcoder.forget(from, from + this._dropped.bytes);
+  }
+
+  // Apply the size limits to a complete token
+  private _output(type: TokenType, buf: Uint8Array): void {
+    const text = type === "text" || type === this.rawToken;
+    const limit = text ? this.textLimit : this.tagLimit;
+    const cut = text ? -1 : this._attributeCut;
+    if (this._dropped === null && cut === -1) {
+      if (limit === null || buf.length <= limit.max) {
+        return this._emitPiece(type, buf);
+      }
+      if (limit.action === "error") {
+        const code = text ? "text-too-long" : "tag-too-long";
+        throw this._limitError(code, this._position);
+      }
+      if (limit.action === "split") {
+        return this._split(text ? type : "text", buf, limit.max);
+      }
+    }
+
+    // Bytes kept at the end: the end marker or the closing '>'
+    let tail = 0;
+    if (!text) {
+      const last = buf.length - 1;
+      tail = buf[last] !== GT ? 0 : buf[last - 1] === SLASH ? 2 : 1;
+    } else if (type !== "text" && this.raw) {
+      tail = this.raw.length;
+    }
+    let head = buf.length - tail;
+    if (limit) head = Math.min(head, Math.max(limit.max - tail, 0));
+    if (this._dropped) head = Math.min(head, this._kept);
+    if (cut !== -1) {
+      let end = Math.min(head, cut - this._tagStart);
+      while (end > 0 && isWhitespace(buf[end - 1])) end--;
+      head = end;
+    }
+    head = charBoundary(buf, 0, head);
+
+    const end = buf.length - tail;
+    let dropped: Span;
+    if (this._dropped) {
+      const kept = Math.min(this._kept, end);
+      dropped = join(measure(buf.subarray(head, kept)), this._dropped);
+      measure(buf.subarray(kept, end), dropped);
+    } else {
+      dropped = measure(buf.subarray(head, end));
+    }
+    this._dropped = null;
+    this._kept = 0;
+    const token = this.bytes.concat([
+      buf.subarray(0, head),
+      buf.subarray(end),
+    ]);
+    this._emitPiece(type, token, dropped, tail);
+  }
+
+  private _split(type: TokenType, buf: Uint8Array, max: number): void {
+    let start = 0;
+    while (start < buf.length) {
+      const end = charBoundary(buf, start, start + max);
+      this._emitPiece(type, buf.subarray(start, end));
+      start = end;
+    }
+  }
+
+  private _emitPiece(
+    type: TokenType,
+    buf: Uint8Array,
+    dropped: Span | null = null,
+    tail: number = 0
+  ): void {
+    if (type === "text") this._emitText(buf, dropped, tail);
+    else this._emit(type, buf, dropped, tail);
+  }
+
+  private _pushState = (ev: TokenType): void => {
+    if (this.buffers.length === 0) return;
+    const buf = this._take();
+    if (this.ignoreText && ev === "text") this._skip(buf);
+    else this._output(ev, buf);
+  };
+
+  /**
+   * Bytes of the pending token. A token within one chunk is a view into it,
+   * one spanning chunks is copied once.
+   */
+  private _take(): Uint8Array {
+    const buffers = this.buffers;
+    this.buffers = [];
+    return buffers.length === 1 ? buffers[0] : this.bytes.concat(buffers);
+  }
+
+  private _emitText(
+    buf: Uint8Array,
+    dropped: Span | null = null,
+    tail: number = 0
+  ): void {
+    // Whitespace of raw text and preformatted elements is significant
+    const collapsing =
+      this.whitespace !== "preserve" && !this.raw && this._preformatted === 0;
+    if (collapsing && isBlank(buf)) {
+      if (this.whitespace === "dropInsignificant") {
+        return this._drop(buf, dropped, tail);
+      }
+      if (buf.length === 1 && buf[0] === SPACE) {
+        return this._emit("text", buf, dropped, tail);
+      }
+      const space = " ";
+      const output = this.objectTokens ? buf : this.bytes.encode(space);
+      return this._emit("text", buf, dropped, tail, output, space);
+    }
+    // Raw text (script, style...) is never decoded, RCDATA (title, textarea) is
+    const decoding = this.decode && (!this.raw || this.rcdata.has(this.raw));
+    const squeezing = collapsing && this.whitespace === "collapse" && hasRuns(buf);
+    if ((!decoding || buf.indexOf(AMP) === -1) && !squeezing) {
+      return this._emit("text", buf, dropped, tail);
+    }
+
+    let text = decoding
+      ? decodeEntities(decode(buf), { mode: this.xml ? "xml" : "html" })
+      : decode(buf);
+    if (collapsing && this.whitespace === "collapse") {
+      text = text.replace(WHITESPACE_RUN, " ");
+    }
+    // Object tokens keep the source bytes
+    const decoded = this.objectTokens ? buf : this.bytes.encode(text);
+    this._emit("text", buf, dropped, tail, decoded, text);
+  }
+
+  /**
+   * Emit a token for the source bytes `buf`. Tuples hold `output`, the bytes
+   * with entities decoded, and positions always refer to the source bytes.
+   */
+  private _emit(
+    type: TokenType,
+    buf: Uint8Array,
+    dropped: Span | null = null,
+    tail: number = 0,
+    output: Uint8Array = buf,
+    text?: string
+  ): void {
+    let position: TokenPosition | undefined;
+    if (this.positions) {
+      position = this._advance(buf, dropped, tail);
+    } else {
+      this._position += buf.length + (dropped ? dropped.bytes : 0);
+    }
+    this._release();
+    if (this.objectTokens) {
+      return this.emit(this._object(type, buf, position, text));
+    }
+    this.emit(
+      (position ? [type, output, position] : [type, output]) as Token<Uint8Array>
+    );
+  }
+
+  private _object(
+    type: TokenType,
+    raw: Uint8Array,
+    position: TokenPosition | undefined,
+    text: string | undefined
+  ): ObjectToken<Uint8Array> {
+    const options = this.objectTokens as Required<ObjectTokenOptions>;
+    const tag = type === "open" || type === "close" || type === "selfclose";
+    const token: ObjectToken<Uint8Array> = {
+      type,
+      name: tag ? this._intern(this._name) : null,
+      selfClosing: tag && this._selfClosing,
+      raw,
+    };
+    this._name = null;
+    this._selfClosing = false;
+    if (options.attributes && (type === "open" || type === "selfclose")) {
+      token.attributes = parseTag(raw, {
+        mode: this.xml ? "xml" : "html",
+        decodeEntities: this.decode,
+        spec: this.spec,
+      }).attributes;
+    }
+    if (options.text) {
+      text ??= tokenText(type, raw);
+      if (text !== undefined) token.text = text;
+    }
+    if (type === "doctype") {
+      token.doctype = parseDoctype(raw, { mode: this.xml ? "xml" : "html" });
+    }
+    if (position) token.position = position;
+    return token;
+  }
+
+  // Equal tag names share one string
+  private _intern(name: string | null): string | null {
+    if (name === null) return null;
+    const interned = this._names.get(name);
+    if (interned !== undefined) return interned;
+    if (this._names.size < MAX_NAMES) this._names.set(name, name);
+    return name;
+  }
+
+  // Bytes not covered by any token, like ignored text
+  private _skip(buf: Uint8Array): void {
+    const dropped = this._dropped;
+    const tail = dropped ? buf.length - this._kept : 0;
+    this._dropped = null;
+    this._kept = 0;
+    this._drop(buf, dropped, tail);
+  }
+
+  // Move past source bytes without emitting a token
+  private _drop(buf: Uint8Array, dropped: Span | null, tail: number): void {
+    if (this.positions) this._advance(buf, dropped, tail);
+    else this._position += buf.length + (dropped ? dropped.bytes : 0);
+    this._release();
+  }
+
+  /**
+   * Source location of a token: its first `buf.length - tail` bytes, then
+   * the bytes dropped by truncation, then its last `tail` bytes.
+   */
+  private _advance(
+    buf: Uint8Array,
+    dropped: Span | null = null,
+    tail: number = 0
+  ): TokenPosition {
+    const position: TokenPosition = {
+      start: this._position,
+      end: this._position + buf.length,
+      line: this._line,
+      column: this._column,
+    };
+    if (dropped === null) {
+      this._count(buf, 0, buf.length);
+    } else {
+      this._count(buf, 0, buf.length - tail);
+      if (dropped.lines > 0) {
+        this._line += dropped.lines;
+        this._column = 1 + dropped.column;
+      } else {
+        this._column += dropped.column;
+      }
+      this._count(buf, buf.length - tail, buf.length);
+      position.end += dropped.bytes;
+    }
+    this._position = position.end;
+    position.start = this._input(position.start);
+    position.end = this._input(position.end);
+    return position;
+  }
+
+  private _count(buf: Uint8Array, from: number, to: number): void {
+    for (let j = from; j < to; j++) {
+      const c = buf[j];
+      if (c === LF) {
+        this._line++;
+        this._column = 1;
+      }
+      // UTF-8 continuation bytes do not start a new character
+      else if ((c & 0xc0) !== 0x80) this._column++;
+    }
+  }
+
+  private _getChar = (index: number): number | undefined => {
+    let offset = 0;
+    for (let j = 0; j < this.buffers.length; j++) {
+      const buf = this.buffers[j];
+      if (offset + buf.length > index) {
+        return buf[index - offset];
+      }
+      offset += buf.length;
+    }
+  };
+
+  /**
+   * Name of the pending tag, from byte `start` (after '<' or '</'), with the
+   * byte after it. Names of truncated tags were read before the cut.
+   */
+  private _getTag = (start: number = 1): [string, number] => {
+    if (this._cut) this._readCut();
+    let [tag, next] = this._cut
+      ? [this._cut.name, this._cut.next]
+      : this._readName(start);
+    // Names were read byte by byte
+    if (/[^\x00-\x7f]/.test(tag)) {
+      tag = decode(Uint8Array.from(tag, (c) => c.charCodeAt(0)));
+    }
+    return [this.xml ? tag : tag.toLowerCase(), next];
+  };
+
+  // Pending name bytes from `start` as characters, and the byte after them, -1 if none yet
+  private _readName(start: number): [string, number] {
+    // Spec mode names run up to whitespace, '/' or '>'
+    const isNameChar = this.xml || this.spec ? isXmlNameChar : isTagNameChar;
+    let name = "";
+    let index = 0;
+    for (let j = 0; j < this.buffers.length; j++) {
+      const buf = this.buffers[j];
+      for (let k = Math.max(start - index, 0); k < buf.length; k++) {
+        const c = buf[k];
+        if (!isNameChar(c)) return [name, c];
+        name += String.fromCharCode(c);
+      }
+      index += buf.length;
+    }
+    return [name, -1];
+  }
+
+  // Start or go on reading the name of a tag whose bytes are cut
+  private _readCut(): void {
+    const cut = this._cut;
+    if (cut === null) {
+      const first = this._getChar(1) ?? -1;
+      const [name, next] = this._readName(first === SLASH ? 2 : 1);
+      this._cut = { first, name, next, from: 0 };
+    } else if (cut.next === -1) {
+      const [name, next] = this._readName(cut.from);
+      cut.name += name;
+      cut.next = next;
+    }
+  }
+
+  // Byte `back` positions before `buf[i]`, -1 before the start of the input
+  private _byteBefore(buf: Uint8Array, i: number, back: number): number {
+    const j = i - back;
+    if (j >= 0) return buf[j];
+    const k = this._tailLength + j;
+    return k >= 0 ? this._tail[k] : -1;
+  }
+
+  // Whether `marker` ends at `buf[i]`, looking back into previous chunks
+  private _endsWith(buf: Uint8Array, i: number, marker: Uint8Array): boolean {
+    const last = marker.length - 1;
+    for (let m = last; m >= 0; m--) {
+      const c = this._byteBefore(buf, i, last - m);
+      if (c === -1 || lower(c) !== lower(marker[m])) return false;
+    }
+    return true;
+  }
+
+  /**
+   * Index of the last byte of `raw`, an end marker, in `buf` from `from`, or -1.
+   * Markers ending within the first bytes may start before `from`, but not
+   * before the input offset `min`, later ones are found with `indexOf` on
+   * their first byte.
+   */
+  private _find(
+    buf: Uint8Array,
+    from: number,
+    raw: Uint8Array,
+    min: number = 0
+  ): number {
+    const length = raw.length;
+    const lookback = Math.min(from + length - 1, buf.length);
+    for (let i = from; i < lookback; i++) {
+      if (this._bufStart + i + 1 - length < min) continue;
+      if (this._endsWith(buf, i, raw)) return i;
+    }
+    const first = raw[0];
+    const last = buf.length - length;
+    for (let i = buf.indexOf(first, from); i !== -1 && i <= last; ) {
+      let m = 1;
+      while (m < length && lower(buf[i + m]) === lower(raw[m])) m++;
+      if (m === length) return i + length - 1;
+      i = buf.indexOf(first, i + 1);
+    }
+    return -1;
+  }
+
+  private _keepTail(buf: Uint8Array): void {
+    const size = this._tailSize;
+    const length = buf.length;
+    if (length >= size) {
+      this._tail.set(buf.subarray(length - size));
+      this._tailLength = size;
+    } else {
+      const keep = Math.min(this._tailLength, size - length);
+      this._tail.copyWithin(0, this._tailLength - keep, this._tailLength);
+      this._tail.set(buf, keep);
+      this._tailLength = keep + length;
+    }
+  }
+}
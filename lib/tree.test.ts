@@ -0,0 +1,147 @@
+import { test, describe } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { Readable } from 'stream';
+import { MarkupTokenizer, TreeBuilder } from './index.js';
+import type { TreeEvent, TreeBuilderOptions, TreeDocument, TreeNode } from './index.js';
+
+// Events, or the document with `tree: true`
+const build = <T extends TreeEvent | TreeDocument = TreeEvent>(input: string, options?: TreeBuilderOptions): Promise<T[]> =>
+  new Promise((resolve, reject) => {
+    const events: T[] = [];
+    const builder = new TreeBuilder(options);
+    builder.on('data', (event) => events.push(event));
+    builder.on('end', () => resolve(events));
+    builder.on('error', reject);
+    Readable.from([Buffer.from(input, 'utf8')])
+      .pipe(new MarkupTokenizer({ mode: options?.mode }))
+      .pipe(builder);
+  });
+
+// Compact representation: `+div` for enter, `-div` for leave (`-div*` when implied)
+const trace = async (input: string, options?: TreeBuilderOptions): Promise<string[]> => {
+  const events: TreeEvent[] = await build(input, options);
+  return events.map(event => {
+    if (event.type === 'enter') return `+${event.name}`;
+    if (event.type === 'leave') return `-${event.name}${event.token ? '' : '*'}`;
+    return `${event.type}:${event.token![1].toString()}`;
+  });
+};
+
+describe('TreeBuilder', () => {
+
+  test('balanced events', async () => {
+    assert.deepEqual(await trace('<div><span>a</span></div>'), [
+      '+div', '+span', 'text:a', '-span', '-div'
+    ]);
+  });
+
+  test('depth and path', async () => {
+    const events: TreeEvent[] = await build('<ul><li>a</li></ul>');
+    assert.deepEqual(events.map(event => [event.type, event.depth, event.path]), [
+      ['enter', 1, ['ul']],
+      ['enter', 2, ['ul', 'li']],
+      ['text', 2, ['ul', 'li']],
+      ['leave', 2, ['ul', 'li']],
+      ['leave', 1, ['ul']]
+    ]);
+  });
+
+  test('void elements', async () => {
+    assert.deepEqual(await trace('<p>a<br>b<img src="x"></p>'), [
+      '+p', 'text:a', '+br', '-br*', 'text:b', '+img', '-img*', '-p'
+    ]);
+  });
+
+  test('implied paragraph end', async () => {
+    assert.deepEqual(await trace('<p>a<p>b<div>c</div>'), [
+      '+p', 'text:a', '-p*', '+p', 'text:b', '-p*', '+div', 'text:c', '-div'
+    ]);
+  });
+
+  test('implied list item end', async () => {
+    assert.deepEqual(await trace('<ul><li>a<li>b<ul><li>c</ul></ul>'), [
+      '+ul',
+      '+li', 'text:a', '-li*',
+      '+li', 'text:b',
+      '+ul', '+li', 'text:c', '-li*', '-ul',
+      '-li*',
+      '-ul'
+    ]);
+  });
+
+  test('implied table cell and row ends', async () => {
+    assert.deepEqual(await trace('<table><tr><td>a<td>b<tr><td>c</table>'), [
+      '+table',
+      '+tr', '+td', 'text:a', '-td*', '+td', 'text:b', '-td*', '-tr*',
+      '+tr', '+td', 'text:c', '-td*', '-tr*',
+      '-table'
+    ]);
+  });
+
+  test('implied option end', async () => {
+    assert.deepEqual(await trace('<select><option>a<option>b<optgroup><option>c</select>'), [
+      '+select',
+      '+option', 'text:a', '-option*',
+      '+option', 'text:b', '-option*',
+      '+optgroup', '+option', 'text:c', '-option*', '-optgroup*',
+      '-select'
+    ]);
+  });
+
+  test('stray end tags are ignored', async () => {
+    assert.deepEqual(await trace('<div>a</span></p></div></div>'), [
+      '+div', 'text:a', '-div'
+    ]);
+  });
+
+  test('end tags close open descendants', async () => {
+    assert.deepEqual(await trace('<div><b><i>a</div>'), [
+      '+div', '+b', '+i', 'text:a', '-i*', '-b*', '-div'
+    ]);
+  });
+
+  test('end tags do not cross table cells', async () => {
+    assert.deepEqual(await trace('<div><table><tr><td></div>'), [
+      '+div', '+table', '+tr', '+td', '-td*', '-tr*', '-table*', '-div*'
+    ]);
+  });
+
+  test('unclosed elements are closed at the end', async () => {
+    assert.deepEqual(await trace('<html><body>a'), [
+      '+html', '+body', 'text:a', '-body*', '-html*'
+    ]);
+  });
+
+  test('comments and declarations', async () => {
+    assert.deepEqual(await trace('<!DOCTYPE html><p><!-- x --></p>'), [
+      'doctype:<!DOCTYPE html>', '+p', 'comment:<!-- x -->', '-p'
+    ]);
+  });
+
+  test('xml mode', async () => {
+    assert.deepEqual(await trace('<feed><entry><link/><p>a<p>b</p></entry><br></feed>', { mode: 'xml' }), [
+      '+feed', '+entry', '+link', '-link*', '+p', 'text:a', '+p', 'text:b', '-p', '-p*', '-entry', '+br', '-br*', '-feed'
+    ]);
+  });
+
+  test('in-memory tree', async () => {
+    const events = await build<TreeDocument>('<ul><li>a<li>b</ul>', { tree: true });
+    assert.equal(events.length, 1);
+    const document = events[0];
+    type Simple = string | { name: string, closed: boolean, children: Simple[] };
+    const simplify = (node: TreeNode): Simple =>
+      node.type === 'element'
+        ? { name: node.name, closed: node.close !== null, children: node.children.map(simplify) }
+        : node.token[1].toString();
+    assert.deepEqual(document.children.map(simplify), [
+      {
+        name: 'ul',
+        closed: true,
+        children: [
+          { name: 'li', closed: false, children: ['a'] },
+          { name: 'li', closed: false, children: ['b'] }
+        ]
+      }
+    ]);
+  });
+});
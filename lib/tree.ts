@@ -0,0 +1,365 @@
+import { Transform, TransformCallback } from "node:stream";
+import { getTagName } from "./tag.js";
+import type { Token } from "./types.js";
+
+type LeafType = "text" | "comment" | "doctype" | "cdata" | "pi" | "template";
+
+export type TreeEventType = "enter" | "leave" | LeafType;
+
+export interface TreeEvent {
+  type: TreeEventType;
+  // Element name for enter and leave events, null otherwise
+  name: string | null;
+  // Number of open elements, the element itself included for enter and leave
+  depth: number;
+  // Names of the open elements from the outermost one
+  path: string[];
+  // Source token, null for end tags implied by the builder
+  token: Token | null;
+}
+
+export interface TreeElement {
+  type: "element";
+  name: string;
+  token: Token;
+  // End tag token, null when the end tag was implied
+  close: Token | null;
+  children: TreeNode[];
+}
+
+export interface TreeLeaf {
+  type: LeafType;
+  token: Token;
+}
+
+export type TreeNode = TreeElement | TreeLeaf;
+
+export interface TreeDocument {
+  type: "document";
+  children: TreeNode[];
+}
+
+export interface TreeBuilderOptions {
+  mode?: "html" | "xml";
+  // Emit the whole document as a single object once the input ends
+  tree?: boolean;
+}
+
+export const VOID_ELEMENTS = new Set([
+  "area",
+  "base",
+  "br",
+  "col",
+  "embed",
+  "hr",
+  "img",
+  "input",
+  "keygen",
+  "link",
+  "meta",
+  "param",
+  "source",
+  "track",
+  "wbr",
+]);
+
+// Elements that stop the search for an open element ("has an element in scope")
+const DEFAULT_SCOPE = [
+  "applet",
+  "caption",
+  "html",
+  "table",
+  "td",
+  "th",
+  "marquee",
+  "object",
+  "template",
+];
+
+const scope = (...names: string[]): Set<string> =>
+  new Set([...DEFAULT_SCOPE, ...names]);
+
+const ELEMENT_SCOPE = scope();
+const BUTTON_SCOPE = scope("button");
+const LIST_SCOPE = scope("button", "ol", "ul");
+const TABLE_SCOPE = new Set(["html", "table", "template"]);
+
+interface ImpliedEnd {
+  // Open elements closed by the start tag
+  closes: Set<string>;
+  // Elements that stop the search, or null to only close the current element
+  scope: Set<string> | null;
+}
+
+// Start tags that imply the end of open elements
+const IMPLIED_ENDS: Map<string, ImpliedEnd> = new Map();
+
+const implies = (
+  names: string[],
+  closes: string[],
+  scope: Set<string> | null
+): void => {
+  for (const name of names) {
+    IMPLIED_ENDS.set(name, { closes: new Set(closes), scope });
+  }
+};
+
+implies(
+  [
+    "address",
+    "article",
+    "aside",
+    "blockquote",
+    "center",
+    "details",
+    "dialog",
+    "dir",
+    "div",
+    "dl",
+    "fieldset",
+    "figcaption",
+    "figure",
+    "footer",
+    "form",
+    "h1",
+    "h2",
+    "h3",
+    "h4",
+    "h5",
+    "h6",
+    "header",
+    "hgroup",
+    "hr",
+    "listing",
+    "main",
+    "menu",
+    "nav",
+    "ol",
+    "p",
+    "plaintext",
+    "pre",
+    "section",
+    "summary",
+    "table",
+    "ul",
+    "xmp",
+  ],
+  ["p"],
+  BUTTON_SCOPE
+);
+implies(["li"], ["li", "p"], LIST_SCOPE);
+implies(["dd", "dt"], ["dd", "dt", "p"], scope("button", "dl"));
+implies(["option"], ["option"], null);
+implies(["optgroup"], ["option", "optgroup"], null);
+implies(["tr"], ["tr", "td", "th"], TABLE_SCOPE);
+implies(["td", "th"], ["td", "th"], new Set(["tr", ...TABLE_SCOPE]));
+implies(
+  ["caption", "colgroup", "thead", "tbody", "tfoot"],
+  ["caption", "colgroup", "thead", "tbody", "tfoot", "tr", "td", "th"],
+  TABLE_SCOPE
+);
+implies(["rb", "rtc"], ["rb", "rp", "rt", "rtc"], new Set(["ruby"]));
+implies(["rp", "rt"], ["rb", "rp", "rt"], new Set(["ruby"]));
+
+// Scope in which end tags look for their open element
+const END_TAG_SCOPES: Map<string, Set<string>> = new Map([
+  ["p", BUTTON_SCOPE],
+  ["li", LIST_SCOPE],
+  ["table", TABLE_SCOPE],
+  ["td", TABLE_SCOPE],
+  ["th", TABLE_SCOPE],
+  ["tr", TABLE_SCOPE],
+  ["thead", TABLE_SCOPE],
+  ["tbody", TABLE_SCOPE],
+  ["tfoot", TABLE_SCOPE],
+  ["caption", TABLE_SCOPE],
+  ["colgroup", TABLE_SCOPE],
+]);
+
+export interface ElementStackOptions {
+  mode?: "html" | "xml";
+}
+
+/**
+ * Stack of open elements, shared by the stream stages that need to know
+ * where elements start and end.
+ */
+export class ElementStack {
+  private xml: boolean = false;
+
+  // Names of the open elements from the outermost one
+  readonly names: string[] = [];
+
+  constructor(
+    options: ElementStackOptions,
+    // Called once the element is on the stack
+    private onEnter: (name: string, token: Token) => void,
+    // Called before the element leaves the stack, with a null token when the end is implied
+    private onLeave: (name: string, token: Token | null) => void
+  ) {
+    this.xml = options.mode === "xml";
+  }
+
+  /**
+   * Update the stack with an open, selfclose or close token. Returns false
+   * for other tokens.
+   */
+  write(token: Token): boolean {
+    const type = token[0];
+    if (type === "open" || type === "selfclose") {
+      const name = getTagName(token[1], { mode: this.xml ? "xml" : "html" });
+      if (!this.xml) this._implyEnd(name);
+      this.names.push(name);
+      this.onEnter(name, token);
+      if (type === "selfclose" || (!this.xml && VOID_ELEMENTS.has(name))) {
+        this._leave(null);
+      }
+      return true;
+    }
+    if (type === "close") {
+      this._close(token);
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Close the elements left open at the end of the input.
+   */
+  end(): void {
+    while (this.names.length > 0) this._leave(null);
+  }
+
+  private _implyEnd(name: string): void {
+    const rule = IMPLIED_ENDS.get(name);
+    if (!rule) return;
+
+    const stack = this.names;
+    if (rule.scope === null) {
+      while (stack.length > 0 && rule.closes.has(stack[stack.length - 1])) {
+        this._leave(null);
+      }
+      return;
+    }
+
+    // Close the outermost matching element and everything opened inside it
+    let index = -1;
+    for (let i = stack.length - 1; i >= 0; i--) {
+      if (rule.closes.has(stack[i])) index = i;
+      else if (rule.scope.has(stack[i])) break;
+    }
+    if (index !== -1) {
+      while (stack.length > index) this._leave(null);
+    }
+  }
+
+  private _close(token: Token): void {
+    const name = getTagName(token[1], { mode: this.xml ? "xml" : "html" });
+    const stack = this.names;
+    const scope = this.xml ? null : END_TAG_SCOPES.get(name) ?? ELEMENT_SCOPE;
+
+    for (let i = stack.length - 1; i >= 0; i--) {
+      if (stack[i] === name) {
+        while (stack.length > i + 1) this._leave(null);
+        this._leave(token);
+        return;
+      }
+      if (scope && scope.has(stack[i])) break;
+    }
+    // Stray end tags are ignored
+  }
+
+  private _leave(token: Token | null): void {
+    this.onLeave(this.names[this.names.length - 1], token);
+    this.names.pop();
+  }
+}
+
+/**
+ * Turn a token stream into balanced enter/leave events, following the HTML
+ * rules for void elements, implied end tags and stray end tags.
+ */
+export class TreeBuilder extends Transform {
+  private tree: boolean = false;
+  private stack: ElementStack;
+  private nodes: (TreeElement | TreeDocument)[] = [];
+
+  document: TreeDocument | null = null;
+
+  constructor(options: TreeBuilderOptions = {}) {
+    super({ objectMode: true });
+    this.tree = options.tree ?? false;
+    this.stack = new ElementStack(
+      options,
+      (name, token) => this._enter(name, token),
+      (name, token) => this._leave(name, token)
+    );
+    if (this.tree) {
+      this.document = { type: "document", children: [] };
+      this.nodes.push(this.document);
+    }
+  }
+
+  _transform = (
+    token: Token,
+    enc: BufferEncoding,
+    next: TransformCallback
+  ): void => {
+    if (!this.stack.write(token)) this._leaf(token[0] as LeafType, token);
+    next();
+  };
+
+  _flush = (next: TransformCallback): void => {
+    this.stack.end();
+    if (this.document) this.push(this.document);
+    next();
+  };
+
+  private _enter(name: string, token: Token): void {
+    if (this.tree) {
+      const element: TreeElement = {
+        type: "element",
+        name,
+        token,
+        close: null,
+        children: [],
+      };
+      this.nodes[this.nodes.length - 1].children.push(element);
+      this.nodes.push(element);
+    } else {
+      this._event("enter", name, token);
+    }
+  }
+
+  private _leave(name: string, token: Token | null): void {
+    if (this.tree) {
+      (this.nodes.pop() as TreeElement).close = token;
+    } else {
+      this._event("leave", name, token);
+    }
+  }
+
+  private _leaf(type: LeafType, token: Token): void {
+    if (this.tree) {
+      this.nodes[this.nodes.length - 1].children.push({ type, token });
+    } else {
+      this._event(type, null, token);
+    }
+  }
+
+  private _event(
+    type: TreeEventType,
+    name: string | null,
+    token: Token | null
+  ): void {
+    const names = this.stack.names;
+    const event: TreeEvent = {
+      type,
+      name,
+      depth: names.length,
+      path: names.slice(),
+      token,
+    };
+    this.push(event);
+  }
+}
@@ -0,0 +1,47 @@
+import type { TagAttribute } from "./tag.js";
+import type { Doctype } from "./doctype.js";
+
+export type TokenType =
+  | "text"
+  | "open"
+  | "close"
+  | "selfclose"
+  | "comment"
+  | "doctype"
+  | "cdata"
+  | "pi"
+  // With the `templateDelimiters` option
+  | "template";
+
+export interface TokenPosition {
+  // Byte offset of the first byte of the token
+  start: number;
+  // Byte offset right after the last byte of the token
+  end: number;
+  // 1-based line of the first byte of the token
+  line: number;
+  // 1-based column (in characters) of the first byte of the token
+  column: number;
+}
+
+// Tokens hold Buffers in Node and Uint8Arrays in other runtimes
+export type Token<T extends Uint8Array = Buffer> = [TokenType, T, TokenPosition?];
+
+// Token emitted with the `objectTokens` option
+export interface ObjectToken<T extends Uint8Array = Buffer> {
+  type: TokenType;
+  // Name of open, close and selfclose tokens, lower-cased in HTML, null for other tokens
+  name: string | null;
+  // `<br/>`, or a selfclose token in XML
+  selfClosing: boolean;
+  // Source bytes of the token, before entities are decoded
+  raw: T;
+  // Attributes of open and selfclose tokens, with `objectTokens: { attributes: true }`
+  attributes?: TagAttribute[];
+  // With `objectTokens: { text: true }`, the (decoded) text of text tokens and the
+  // content of comments, CDATA sections and processing instructions
+  text?: string;
+  // Name, identifiers and document mode of doctype tokens
+  doctype?: Doctype;
+  position?: TokenPosition;
+}
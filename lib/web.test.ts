@@ -0,0 +1,78 @@
+import { test, describe } from 'node:test';
+import { strict as assert } from 'node:assert';
+import tokenizer, { MarkupTokenizerStream, tokenize, tokens } from './web.js';
+import type { WebToken } from './web.js';
+import { tokenize as tokenizeNode } from './index.js';
+import type { Token } from './index.js';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const html = '<!DOCTYPE html><html><head><title>a &amp; b</title><script>if (a < b) {}</script></head>' +
+  '<body class="x"><!-- c --><p>hello <b>world</b></p><br/><textarea><p></textarea></body></html>';
+
+const readable = (chunks: string[]) =>
+  new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+      controller.close();
+    }
+  });
+
+const collect = async (stream: ReadableStream<WebToken>) => {
+  const result: WebToken[] = [];
+  const reader = stream.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return result;
+    result.push(value);
+  }
+};
+
+const simplify = (list: (WebToken | Token)[]) => list.map(([type, buf, position]) => [type, decoder.decode(buf), position]);
+
+describe('Web entry point', () => {
+
+  test('TransformStream of tokens', async () => {
+    const result = await collect(readable(['<div cla', 'ss="a">hel', 'lo</div>']).pipeThrough(tokenizer()));
+    assert.deepEqual(simplify(result), [
+      ['open', '<div class="a">', undefined],
+      ['text', 'hello', undefined],
+      ['close', '</div>', undefined]
+    ]);
+  });
+
+  test('tokens are Uint8Arrays', async () => {
+    const result = await collect(readable([html]).pipeThrough(new MarkupTokenizerStream()));
+    for (const [, buf] of result) {
+      assert.ok(buf instanceof Uint8Array);
+      assert.equal(Buffer.isBuffer(buf), false);
+    }
+  });
+
+  test('same tokens as the Node stream', async () => {
+    const options = { positions: true, decodeEntities: true };
+    const chunks = html.match(/.{1,5}/gs)!;
+    const result = await collect(readable(chunks).pipeThrough(new MarkupTokenizerStream(options)));
+    assert.deepEqual(simplify(result), simplify(tokenizeNode(html, options)));
+  });
+
+  test('tokenize and tokens', async () => {
+    assert.deepEqual(simplify(tokenize(html)), simplify(tokenizeNode(html)));
+    const result: WebToken[] = [];
+    for await (const token of tokens(readable(html.match(/.{1,3}/gs)!))) result.push(token);
+    assert.deepEqual(simplify(result), simplify(tokenizeNode(html)));
+  });
+
+  test('does not rely on Buffer', () => {
+    const NodeBuffer = globalThis.Buffer;
+    let result;
+    try {
+      (globalThis as { Buffer?: typeof Buffer }).Buffer = undefined;
+      result = tokenize(encoder.encode(html), { positions: true, decodeEntities: true, splitComments: true });
+    } finally {
+      globalThis.Buffer = NodeBuffer;
+    }
+    assert.deepEqual(simplify(result), simplify(tokenizeNode(html, { positions: true, decodeEntities: true, splitComments: true })));
+  });
+});
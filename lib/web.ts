@@ -0,0 +1,152 @@
+// Entry point for browsers, Deno and edge runtimes: no Node built-ins, tokens hold Uint8Arrays
+import { Tokenizer } from "./tokenizer.js";
+import { encode } from "./bytes.js";
+import type {
+  MarkupTokenizerOptions,
+  ObjectTokenizerOptions,
+  TokenizerSnapshot,
+} from "./tokenizer.js";
+import type { Token, ObjectToken } from "./types.js";
+import type { Diagnostic } from "./diagnostics.js";
+
+export type { TokenType, TokenPosition } from "./types.js";
+export type {
+  MarkupTokenizerOptions,
+  ObjectTokenOptions,
+  ObjectTokenizerOptions,
+  WhitespaceMode,
+  TokenizerSnapshot,
+  TokenizerState,
+} from "./tokenizer.js";
+export type { TranscoderState } from "./encoding.js";
+export { parseTag, getTagName } from "./tag.js";
+export { decodeEntities } from "./entities.js";
+export { parseDoctype } from "./doctype.js";
+export type { Doctype, QuirksMode, ParseDoctypeOptions } from "./doctype.js";
+export { sniffEncoding, normalizeEncoding } from "./encoding.js";
+export { MarkupTokenizerError } from "./diagnostics.js";
+export type { Diagnostic, DiagnosticCode } from "./diagnostics.js";
+export type { Limit, LimitAction } from "./limits.js";
+
+export type WebToken = Token<Uint8Array>;
+export type WebObjectToken = ObjectToken<Uint8Array>;
+
+// `T` is `WebObjectToken` with the `objectTokens` option
+export class MarkupTokenizerStream<
+  T extends WebToken | WebObjectToken = WebToken
+> extends TransformStream<Uint8Array, T> {
+  private tokenizer: Tokenizer;
+
+  constructor(options: MarkupTokenizerOptions = {}) {
+    let controller: TransformStreamDefaultController<T>;
+    const tokenizer = new Tokenizer(options, (token) =>
+      controller.enqueue(token as T)
+    );
+    super({
+      start(streamController) {
+        controller = streamController;
+      },
+      transform(chunk) {
+        tokenizer.write(chunk);
+      },
+      flush() {
+        tokenizer.end();
+      },
+    });
+    this.tokenizer = tokenizer;
+  }
+
+  /**
+   * Encoding of the input, null until it has been detected.
+   */
+  get encoding(): string | null {
+    return this.tokenizer.encoding;
+  }
+
+  /**
+   * Parse errors found so far, unless `strict` makes them error the stream.
+   */
+  get diagnostics(): Diagnostic[] {
+    return this.tokenizer.diagnostics;
+  }
+
+  /**
+   * JSON-serializable state after the chunks transformed so far, its
+   * `consumed` count being the input offset to resume from.
+   */
+  snapshot(): TokenizerSnapshot {
+    return this.tokenizer.snapshot();
+  }
+
+  /**
+   * Stream continuing from a snapshot, to be written the input that follows
+   * its first `consumed` bytes.
+   */
+  static restore<T extends WebToken | WebObjectToken = WebToken>(
+    snapshot: TokenizerSnapshot
+  ): MarkupTokenizerStream<T> {
+    const stream = new MarkupTokenizerStream<T>(snapshot.options);
+    stream.tokenizer.restore(snapshot);
+    return stream;
+  }
+}
+
+/**
+ * Tokenize a string or bytes already in memory.
+ */
+export function tokenize(
+  input: string | Uint8Array,
+  options: ObjectTokenizerOptions
+): WebObjectToken[];
+export function tokenize(
+  input: string | Uint8Array,
+  options?: MarkupTokenizerOptions
+): WebToken[];
+export function tokenize(
+  input: string | Uint8Array,
+  options: MarkupTokenizerOptions = {}
+): (WebToken | WebObjectToken)[] {
+  const tokens: (WebToken | WebObjectToken)[] = [];
+  if (typeof input === "string") {
+    // Strings are already decoded, their UTF-8 bytes must not be sniffed
+    options = { ...options, encoding: "utf-8" };
+    input = encode(input);
+  }
+  const tokenizer = new Tokenizer(options, (token) => tokens.push(token));
+  tokenizer.write(input);
+  tokenizer.end();
+  return tokens;
+}
+
+/**
+ * Tokenize an async iterable of chunks with `for await`.
+ */
+export function tokens(
+  source: AsyncIterable<Uint8Array>,
+  options: ObjectTokenizerOptions
+): AsyncGenerator<WebObjectToken>;
+export function tokens(
+  source: AsyncIterable<Uint8Array>,
+  options?: MarkupTokenizerOptions
+): AsyncGenerator<WebToken>;
+export async function* tokens(
+  source: AsyncIterable<Uint8Array>,
+  options: MarkupTokenizerOptions = {}
+): AsyncGenerator<WebToken | WebObjectToken> {
+  let queue: (WebToken | WebObjectToken)[] = [];
+  const tokenizer = new Tokenizer(options, (token) => queue.push(token));
+  for await (const chunk of source) {
+    tokenizer.write(chunk);
+    if (queue.length > 0) {
+      const ready = queue;
+      queue = [];
+      yield* ready;
+    }
+  }
+  tokenizer.end();
+  yield* queue;
+}
+
+export default (options?: MarkupTokenizerOptions) => {
+  return new MarkupTokenizerStream(options);
+};
@@ -0,0 +1,94 @@
+import { test, describe } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { Readable } from 'stream';
+import { tokenize, tokens } from './index.js';
+import type { MarkupTokenizerOptions, Token } from './index.js';
+
+const texts = (list: Token[]) =>
+  list.filter(([type]) => type === 'text').map(([, buf]) => buf.toString());
+
+const HTML = '<ul>\n  <li>a  b</li>\n  <li> c </li>\n</ul>\n';
+
+describe('whitespace option', () => {
+
+  test('preserve is the default', () => {
+    assert.deepEqual(texts(tokenize(HTML)), ['\n  ', 'a  b', '\n  ', ' c ', '\n', '\n']);
+    assert.deepEqual(texts(tokenize(HTML, { whitespace: 'preserve' })), texts(tokenize(HTML)));
+  });
+
+  test('dropInsignificant drops whitespace-only text', () => {
+    const result = tokenize(HTML, { whitespace: 'dropInsignificant' });
+    assert.deepEqual(texts(result), ['a  b', ' c ']);
+    assert.deepEqual(result.map(([type]) => type), ['open', 'open', 'text', 'close', 'open', 'text', 'close', 'close']);
+  });
+
+  test('collapse turns whitespace runs into one space', () => {
+    assert.deepEqual(texts(tokenize(HTML, { whitespace: 'collapse' })), [' ', 'a b', ' ', ' c ', ' ', ' ']);
+    assert.deepEqual(texts(tokenize('a\tb\r\nc', { whitespace: 'collapse' })), ['a b c']);
+  });
+
+  test('preformatted elements are untouched', () => {
+    const html = '<div>\n<pre>\n  x  \n<b> </b></pre>\n<textarea>\n  y</textarea><LISTING> </listing>\n</div>';
+    assert.deepEqual(texts(tokenize(html, { whitespace: 'dropInsignificant' })), ['\n  x  \n', ' ', '\n  y', ' ']);
+    assert.deepEqual(texts(tokenize(html, { whitespace: 'collapse' })), [' ', '\n  x  \n', ' ', ' ', '\n  y', ' ', ' ']);
+  });
+
+  test('nested preformatted elements', () => {
+    const html = '<pre><pre> </pre> </pre> ';
+    assert.deepEqual(texts(tokenize(html, { whitespace: 'dropInsignificant' })), [' ', ' ']);
+  });
+
+  test('stray end tags do not end preformatted context', () => {
+    assert.deepEqual(texts(tokenize('</pre> <pre> ', { whitespace: 'dropInsignificant' })), [' ']);
+    const result = tokenize('</pre> <pre> ', { whitespace: 'dropInsignificant', objectTokens: true });
+    assert.deepEqual(result.map(({ type }) => type), ['close', 'open', 'text']);
+  });
+
+  test('raw text is untouched', () => {
+    const html = '<script>\n  a  </script> <style> </style>';
+    assert.deepEqual(texts(tokenize(html, { whitespace: 'collapse' })), ['\n  a  ', ' ', ' ']);
+    assert.deepEqual(texts(tokenize(html, { whitespace: 'dropInsignificant' })), ['\n  a  ', ' ']);
+  });
+
+  test('collapse after decoding entities', () => {
+    const [[, buf]] = tokenize('a &amp;\n\n b', { whitespace: 'collapse', decodeEntities: true });
+    assert.equal(buf.toString(), 'a & b');
+  });
+
+  test('xml has no preformatted elements', () => {
+    assert.deepEqual(texts(tokenize('<pre> </pre><a>x\n y</a>', { mode: 'xml', whitespace: 'collapse' })), [' ', 'x y']);
+  });
+
+  test('positions of dropped and collapsed text', () => {
+    const result = tokenize('<a>\n\n</a>  <b>', { whitespace: 'collapse', positions: true });
+    assert.deepEqual(result.map(([type, buf, position]) => [type, buf.toString(), position!.start, position!.end]), [
+      ['open', '<a>', 0, 3],
+      ['text', ' ', 3, 5],
+      ['close', '</a>', 5, 9],
+      ['text', ' ', 9, 11],
+      ['open', '<b>', 11, 14]
+    ]);
+    const dropped = tokenize('<a>\n\n</a>', { whitespace: 'dropInsignificant', positions: true });
+    assert.deepEqual(dropped.map(([, , position]) => [position!.start, position!.line]), [[0, 1], [5, 3]]);
+  });
+
+  test('object tokens keep the source bytes', () => {
+    const result = tokenize('<p>a\n  b</p>', { whitespace: 'collapse', objectTokens: { text: true } });
+    assert.equal(result[1].text, 'a b');
+    assert.equal(result[1].raw.toString(), 'a\n  b');
+  });
+
+  test('across chunks', async () => {
+    const options: MarkupTokenizerOptions = { whitespace: 'dropInsignificant' };
+    const result: Token[] = [];
+    const stream = Readable.from(['<pr', 'e> ', ' </p', 're> ', ' <', 'b>', ' x']);
+    for await (const token of tokens(stream, options)) result.push(token);
+    assert.deepEqual(texts(result), ['  ', ' x']);
+  });
+
+  test('split text past the limit', () => {
+    const result = tokenize(`<p>${' '.repeat(10)}</p>`, { whitespace: 'dropInsignificant', maxTextLength: { max: 4, action: 'split' } });
+    assert.deepEqual(result.map(([type]) => type), ['open', 'close']);
+  });
+
+});